@@ -0,0 +1,56 @@
+/**
+ * Scheduled Jobs API Endpoint
+ *
+ * Runs maintenance jobs from a cron trigger. Requires
+ * `Authorization: Bearer $CRON_SECRET`. Pass `?job=<name>` (repeatable)
+ * to run specific jobs, otherwise all jobs run.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runJobs, isJobName } from "@/lib/jobs";
+
+async function handleJobs(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const requested = request.nextUrl.searchParams.getAll("job");
+  const unknown = requested.filter((name) => !isJobName(name));
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown job: ${unknown.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await runJobs(
+      requested.length > 0 ? requested.filter(isJobName) : undefined
+    );
+    const success = results.every((job) => job.success);
+
+    return NextResponse.json(
+      { success, results },
+      { status: success ? 200 : 500 }
+    );
+  } catch (error) {
+    console.error("Job runner error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export { handleJobs as GET, handleJobs as POST };
@@ -14,21 +14,15 @@ import {
   secretCache,
 } from "@/lib/redis";
 import { rateLimiters } from "@/lib/rate-limiter";
+import { sealContent } from "@/lib/encryption";
+import { getClientIp } from "@/lib/client-ip";
 
 // Helper function to get client IP
 function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const real = request.headers.get("x-real-ip");
-
-  if (forwarded) {
-    return forwarded.split(",")[0]?.trim() || "unknown";
-  }
-
-  if (real) {
-    return real;
-  }
-
-  return "unknown";
+  return getClientIp(
+    request.headers.get("x-forwarded-for") ?? undefined,
+    request.headers.get("x-real-ip") ?? undefined
+  );
 }
 
 export async function GET(request: NextRequest) {
@@ -196,6 +190,7 @@ export async function POST(request: NextRequest) {
           description: "Test description",
           contentType: "TEXT" as const,
           fileName: undefined,
+          activatesAt: null,
           expiresAt: null,
           deleteAfterView: false,
           isPublic: false,
@@ -207,7 +202,7 @@ export async function POST(request: NextRequest) {
           createdById: "test-user",
           hasPassword: false,
         };
-        const secretContent = "This is test secret content";
+        const secretContent = sealContent("This is test secret content");
 
         await secretCache.setMetadata(testSecretId, secretMetadata);
         await secretCache.setContent(testSecretId, secretContent);
@@ -0,0 +1,213 @@
+/**
+ * File Secret Download Endpoint
+ *
+ * GET /api/secret/{slug}/download streams the decrypted file. Only the owner
+ * and recipients shared with DOWNLOAD or higher may download it; VIEW
+ * recipients, and anyone with the link to a public secret, may only
+ * request an inline preview (`?disposition=inline`) of file types the
+ * browser can display. Each request consumes a view, exactly like
+ * `secret.reveal`. Password-protected secrets take the password in the
+ * `X-Secret-Password` header. Recipients without an account send the token
+ * from `secret.verifyRecipient` in `X-Recipient-Token`, and recipients
+ * using their own share link send its token in `X-Link-Token`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { AccessAction, type SecretFile } from "@prisma/client";
+import { createTRPCContext } from "@/server/api/trpc";
+import {
+  assertIpAllowed,
+  assertSecretAccess,
+  assertSecretActivated,
+  assertSecretAvailable,
+  hasPermission,
+  recordShareAccess,
+  verifySecretPassword,
+} from "@/lib/secret-access";
+import { claimView } from "@/lib/secret-views";
+import { burnSecret } from "@/lib/secret-burn";
+import { isUploadComplete, readFileChunks } from "@/lib/secret-files";
+import { isPreviewableMimeType } from "@/lib/mime";
+import { secretCache } from "@/lib/redis";
+
+// Quote a file name for Content-Disposition, with a UTF-8 fallback
+function contentDisposition(
+  type: "attachment" | "inline",
+  fileName: string
+): string {
+  const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Stream the file's chunks, calling `onDone` once when the stream ends
+// or the client goes away
+function streamFile(
+  file: SecretFile,
+  onDone: () => Promise<void>
+): ReadableStream<Uint8Array> {
+  const chunks = readFileChunks(file);
+  let done = false;
+
+  const finish = async () => {
+    if (done) return;
+    done = true;
+    try {
+      await onDone();
+    } catch (error) {
+      console.error("Failed to finish secret download:", error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+          await finish();
+        } else {
+          controller.enqueue(new Uint8Array(next.value));
+        }
+      } catch (error) {
+        controller.error(error);
+        await finish();
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+      await finish();
+    },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const ctx = await createTRPCContext({ req: request });
+    const isPreview =
+      request.nextUrl.searchParams.get("disposition") === "inline";
+    const action = isPreview ? AccessAction.VIEW : AccessAction.DOWNLOAD;
+
+    const secret = await ctx.db.secret.findUnique({
+      where: { slug },
+      include: { file: true },
+    });
+
+    const grant = secret
+      ? await assertSecretAccess(secret, {
+          userId: ctx.user?.userId,
+          recipientToken: request.headers.get("x-recipient-token") || undefined,
+          linkToken: request.headers.get("x-link-token") || undefined,
+        })
+      : null;
+
+    assertSecretAvailable(secret, grant);
+    assertSecretActivated(secret);
+
+    const file = secret.file;
+    if (!file || !isUploadComplete(file)) {
+      return NextResponse.json(
+        { error: "Secret has no file to download" },
+        { status: 404 }
+      );
+    }
+
+    if (!grant || !hasPermission(grant.permission, action)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You can preview this file but not download it",
+      });
+    }
+
+    if (isPreview && !isPreviewableMimeType(file.mimeType)) {
+      throw new TRPCError({
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: "This file type can't be previewed",
+      });
+    }
+
+    await assertIpAllowed(secret, {
+      userId: ctx.user?.userId,
+      sharedSecretId: grant.shareId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      action,
+    });
+
+    await verifySecretPassword(
+      secret,
+      request.headers.get("x-secret-password") || undefined,
+      ctx.ipAddress
+    );
+
+    // Count the access before any content leaves the server
+    const claimed = await ctx.db.$transaction(async (tx) => {
+      const views = await claimView(tx, secret, grant.shareId);
+      if (views === null) return false;
+
+      await tx.accessLog.create({
+        data: {
+          secretId: secret.id,
+          userId: ctx.user?.userId,
+          sharedSecretId: grant.shareId,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
+          action,
+        },
+      });
+
+      await recordShareAccess(tx, grant);
+
+      return true;
+    });
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "Secret is no longer available" },
+        { status: 410 }
+      );
+    }
+
+    // One-time secrets are burned once the file has been sent
+    const body = streamFile(file, () =>
+      secret.deleteAfterView
+        ? burnSecret(secret.id)
+        : secretCache.deleteSecret(secret.id)
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": file.mimeType,
+        "Content-Length": String(file.size),
+        "Content-Disposition": contentDisposition(
+          isPreview ? "inline" : "attachment",
+          file.fileName
+        ),
+        "Content-Security-Policy": "sandbox",
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getHTTPStatusCodeFromError(error) }
+      );
+    }
+
+    console.error("Secret download error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * File Upload Chunk Endpoint
+ *
+ * PUT /api/uploads/{id}/chunks/{index} with the raw chunk bytes as the body
+ * and the usual `Authorization: Bearer <token>` header. Chunks may arrive in
+ * any order and may be re-sent; `upload.status` lists the ones received.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { getUserFromRequest } from "@/lib/auth";
+import { storeChunk, validateChunk } from "@/lib/secret-files";
+
+// Read the request body, giving up as soon as it grows past `limit` bytes.
+// Content-Length can't be relied on since chunked requests don't send it.
+async function readBodyWithin(
+  request: NextRequest,
+  limit: number
+): Promise<Buffer | null> {
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+
+  return Buffer.concat(parts);
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const { id, index: rawIndex } = await params;
+
+    const user = getUserFromRequest(
+      request.headers.get("authorization") || undefined
+    );
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const file = await db.secretFile.findUnique({ where: { id } });
+    if (!file || file.createdById !== user.userId) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    if (file.secretId) {
+      return NextResponse.json(
+        { error: "Upload is already attached to a secret" },
+        { status: 409 }
+      );
+    }
+
+    // Refuse oversized bodies before buffering them
+    const declaredLength = Number(request.headers.get("content-length"));
+    const data =
+      declaredLength > file.chunkSize
+        ? null
+        : await readBodyWithin(request, file.chunkSize);
+    if (!data) {
+      return NextResponse.json({ error: "Chunk too large" }, { status: 413 });
+    }
+
+    const index = Number(rawIndex);
+
+    const validationError = validateChunk(file, index, data.length);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    await storeChunk(file, index, data);
+
+    return NextResponse.json({ success: true, index });
+  } catch (error) {
+    console.error("Chunk upload error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -22,10 +22,18 @@ import {
   Select,
   FormControl,
   InputLabel,
+  LinearProgress,
+  Divider,
+  Chip,
   Security,
+  TextFields,
+  AttachFile,
   Schedule,
+  EventAvailable,
+  VpnLock,
   Visibility,
   Password,
+  Public,
   CheckCircle,
   ContentCopy,
   Share,
@@ -34,11 +42,18 @@ import {
 import { useAuth } from "@/components/providers/auth-provider";
 import { trpc } from "@/components/providers/trpc-provider";
 import AuthModal from "@/components/auth/auth-modal";
+import RecipientLinks from "@/components/secret/recipient-links";
+import IpAllowlistField from "@/components/secret/ip-allowlist-field";
+import { encryptContent, buildShareLink } from "@/lib/client-crypto";
+import { uploadFile, forgetUpload } from "@/lib/client-upload";
+import { formatFileSize, addDuration } from "@/lib/utils";
 import {
   EXPIRATION_OPTIONS,
   DEFAULT_EXPIRATION_DURATION,
+  FILE_UPLOAD_LIMITS,
 } from "@/lib/constants";
 import {
+  type SecretType,
   type SecretFormData,
   type SecretFormSettings,
   type CreatedSecret,
@@ -55,11 +70,16 @@ export default function CreateSecretPage() {
     content: "",
     password: "",
     maxViews: "",
+    activatesAt: "",
+    allowedCidrs: [],
   });
   const [settings, setSettings] = useState<SecretFormSettings>({
+    isPublic: true,
     passwordProtected: false,
     expirationEnabled: false,
     limitViews: false,
+    scheduleActivation: false,
+    restrictIps: false,
   });
   const [expirationDuration, setExpirationDuration] =
     useState<ExpirationDuration>(DEFAULT_EXPIRATION_DURATION);
@@ -69,33 +89,29 @@ export default function CreateSecretPage() {
     null
   );
   const [shareModalOpen, setShareModalOpen] = useState(false);
-
-  // Calculate expiration date based on duration
-  const calculateExpirationDate = () => {
-    const now = new Date();
-    const { value, unit } = expirationDuration;
-
-    switch (unit) {
-      case "minutes":
-        now.setMinutes(now.getMinutes() + value);
-        break;
-      case "hours":
-        now.setHours(now.getHours() + value);
-        break;
-      case "days":
-        now.setDate(now.getDate() + value);
-        break;
-      case "months":
-        now.setMonth(now.getMonth() + value);
-        break;
-    }
-
-    return now;
-  };
+  // Decryption key for the created secret; only ever placed in the link fragment
+  const [shareKey, setShareKey] = useState<string | null>(null);
+  const [secretType, setSecretType] = useState<SecretType>("text");
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Fraction of chunks uploaded, null when no upload is running
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  // Scheduled activation time, null when links work right away
+  const getActivationDate = () =>
+    settings.scheduleActivation && formData.activatesAt
+      ? new Date(formData.activatesAt)
+      : null;
+
+  // Calculate expiration date based on duration, counted from activation
+  const calculateExpirationDate = () =>
+    addDuration(getActivationDate() ?? new Date(), expirationDuration);
+
+  const startUploadMutation = trpc.upload.start.useMutation();
+  const utils = trpc.useUtils();
 
   // tRPC mutation for creating secrets
   const createSecretMutation = trpc.secret.create.useMutation({
-    onSuccess: (data: { id: string; title: string }) => {
+    onSuccess: (data: CreatedSecret) => {
       setSuccessMessage("Secret created successfully!");
       setCreatedSecret(data);
       setShareModalOpen(true);
@@ -106,12 +122,18 @@ export default function CreateSecretPage() {
         content: "",
         password: "",
         maxViews: "",
+        activatesAt: "",
+        allowedCidrs: [],
       });
       setSettings({
+        isPublic: true,
         passwordProtected: false,
         expirationEnabled: false,
         limitViews: false,
+        scheduleActivation: false,
+        restrictIps: false,
       });
+      setSelectedFile(null);
       setErrors({});
     },
     onError: (error: { message: string }) => {
@@ -120,6 +142,9 @@ export default function CreateSecretPage() {
     },
   });
 
+  const isSubmitting =
+    createSecretMutation.isPending || uploadProgress !== null;
+
   // Check authentication status
   useEffect(() => {
     if (!isLoading && !user) {
@@ -176,10 +201,22 @@ export default function CreateSecretPage() {
     const newErrors: FormErrors = {};
 
     // Required fields
-    if (!formData.content.trim()) {
+    if (secretType === "text" && !formData.content.trim()) {
       newErrors.content = "Secret content is required";
     }
 
+    if (secretType === "file") {
+      if (!selectedFile) {
+        newErrors.file = "Choose a file to share";
+      } else if (selectedFile.size > FILE_UPLOAD_LIMITS.MAX_FILE_SIZE) {
+        newErrors.file = `Files can be at most ${formatFileSize(
+          FILE_UPLOAD_LIMITS.MAX_FILE_SIZE
+        )}`;
+      } else if (selectedFile.size === 0) {
+        newErrors.file = "The selected file is empty";
+      }
+    }
+
     // Password validation
     if (settings.passwordProtected && !formData.password.trim()) {
       newErrors.password =
@@ -194,11 +231,22 @@ export default function CreateSecretPage() {
       }
     }
 
+    if (settings.scheduleActivation) {
+      const activatesAt = getActivationDate();
+      if (!activatesAt || activatesAt <= new Date()) {
+        newErrors.activatesAt = "Choose a time in the future";
+      }
+    }
+
+    if (settings.restrictIps && formData.allowedCidrs.length === 0) {
+      newErrors.allowedCidrs = "Add at least one IP address or range";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSuccessMessage("");
 
@@ -210,19 +258,72 @@ export default function CreateSecretPage() {
     const submitData: {
       title: string;
       content: string;
+      iv?: string;
+      contentType?: "FILE";
+      fileId?: string;
+      activatesAt?: Date;
       expiresAt?: Date;
       password?: string;
       maxViews?: number;
+      allowedCidrs?: string[];
+      isPublic: boolean;
     } = {
-      title: formData.title.trim() || "Untitled Secret",
-      content: formData.content.trim(),
+      title: formData.title.trim() || selectedFile?.name || "Untitled Secret",
+      content: "",
+      isPublic: settings.isPublic,
     };
 
+    if (secretType === "file" && selectedFile) {
+      // Files are uploaded in chunks and encrypted at rest on the server
+      try {
+        setUploadProgress(0);
+        submitData.fileId = await uploadFile(
+          selectedFile,
+          {
+            start: (input) => startUploadMutation.mutateAsync(input),
+            status: (id) => utils.upload.status.fetch({ id }),
+          },
+          setUploadProgress
+        );
+        submitData.contentType = "FILE";
+      } catch (err) {
+        console.error("Failed to upload file:", err);
+        setErrors({
+          submit:
+            err instanceof Error
+              ? `Upload failed: ${err.message}. Submit again to resume.`
+              : "Upload failed. Submit again to resume.",
+        });
+        return;
+      } finally {
+        setUploadProgress(null);
+      }
+      setShareKey(null);
+    } else {
+      // Encrypt in the browser so the server only ever receives ciphertext
+      let encrypted;
+      try {
+        encrypted = await encryptContent(formData.content.trim());
+      } catch (err) {
+        console.error("Failed to encrypt content:", err);
+        setErrors({ submit: "Failed to encrypt secret in this browser" });
+        return;
+      }
+      setShareKey(encrypted.key);
+      submitData.content = encrypted.ciphertext;
+      submitData.iv = encrypted.iv;
+    }
+
     // Add optional fields only if they're enabled and have values
     if (settings.passwordProtected && formData.password) {
       submitData.password = formData.password;
     }
 
+    const activatesAt = getActivationDate();
+    if (activatesAt) {
+      submitData.activatesAt = activatesAt;
+    }
+
     if (settings.expirationEnabled) {
       submitData.expiresAt = calculateExpirationDate();
     }
@@ -231,13 +332,22 @@ export default function CreateSecretPage() {
       submitData.maxViews = parseInt(formData.maxViews);
     }
 
-    createSecretMutation.mutate(submitData);
+    if (settings.restrictIps) {
+      submitData.allowedCidrs = formData.allowedCidrs;
+    }
+
+    const uploadedFile = submitData.fileId ? selectedFile : null;
+    createSecretMutation.mutate(submitData, {
+      onSuccess: () => {
+        if (uploadedFile) forgetUpload(uploadedFile);
+      },
+    });
   };
 
   // Generate shareable link
   const getShareableLink = () => {
-    if (!createdSecret) return "";
-    return `${window.location.origin}/secret/${createdSecret.id}`;
+    if (!createdSecret?.slug) return "";
+    return buildShareLink(createdSecret.slug, shareKey);
   };
 
   // Copy link to clipboard
@@ -268,6 +378,7 @@ export default function CreateSecretPage() {
   const handleCloseShareModal = () => {
     setShareModalOpen(false);
     setCreatedSecret(null);
+    setShareKey(null);
     setSuccessMessage("");
   };
 
@@ -320,21 +431,77 @@ export default function CreateSecretPage() {
               disabled={createSecretMutation.isPending}
             />
 
-            <TextField
-              fullWidth
-              multiline
-              rows={6}
-              label="Secret Content"
-              value={formData.content}
-              onChange={(e) =>
-                setFormData({ ...formData, content: e.target.value })
-              }
-              placeholder="Enter your secret content here..."
-              required
-              error={!!errors.content}
-              helperText={errors.content}
-              disabled={createSecretMutation.isPending}
-            />
+            <Box sx={{ display: "flex", gap: 1, mb: 2 }}>
+              <Chip
+                icon={<TextFields />}
+                label="Text Secret"
+                onClick={() => setSecretType("text")}
+                color={secretType === "text" ? "primary" : "default"}
+                variant={secretType === "text" ? "filled" : "outlined"}
+                disabled={isSubmitting}
+              />
+              <Chip
+                icon={<AttachFile />}
+                label="File Upload"
+                onClick={() => setSecretType("file")}
+                color={secretType === "file" ? "primary" : "default"}
+                variant={secretType === "file" ? "filled" : "outlined"}
+                disabled={isSubmitting}
+              />
+            </Box>
+
+            {secretType === "text" ? (
+              <TextField
+                fullWidth
+                multiline
+                rows={6}
+                label="Secret Content"
+                value={formData.content}
+                onChange={(e) =>
+                  setFormData({ ...formData, content: e.target.value })
+                }
+                placeholder="Enter your secret content here..."
+                required
+                error={!!errors.content}
+                helperText={errors.content}
+                disabled={isSubmitting}
+              />
+            ) : (
+              <Box>
+                <Button
+                  variant="outlined"
+                  component="label"
+                  startIcon={<AttachFile />}
+                  disabled={isSubmitting}
+                >
+                  {selectedFile ? "Choose a different file" : "Choose file"}
+                  <input
+                    type="file"
+                    hidden
+                    onChange={(e) =>
+                      setSelectedFile(e.target.files?.[0] ?? null)
+                    }
+                  />
+                </Button>
+                <Typography
+                  variant="body2"
+                  color={errors.file ? "error" : "text.secondary"}
+                  sx={{ mt: 1 }}
+                >
+                  {errors.file ||
+                    (selectedFile
+                      ? `${selectedFile.name} (${formatFileSize(selectedFile.size)})`
+                      : `Up to ${formatFileSize(FILE_UPLOAD_LIMITS.MAX_FILE_SIZE)}, encrypted at rest`)}
+                </Typography>
+                {uploadProgress !== null && (
+                  <LinearProgress
+                    variant="determinate"
+                    value={uploadProgress * 100}
+                    sx={{ mt: 2 }}
+                  />
+                )}
+              </Box>
+            )}
           </Box>
 
           {/* Security Settings */}
@@ -344,6 +511,34 @@ export default function CreateSecretPage() {
             </Typography>
 
             <Box sx={{ display: "flex", flexDirection: "column", gap: 3 }}>
+              <Box>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.isPublic}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          isPublic: e.target.checked,
+                        })
+                      }
+                      disabled={createSecretMutation.isPending}
+                    />
+                  }
+                  label={
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <Public />
+                      Anyone With the Link
+                    </Box>
+                  }
+                />
+                <Typography variant="body2" color="text.secondary">
+                  {settings.isPublic
+                    ? "Anyone who has the link can view this secret."
+                    : "Only you and the people you share it with can view this secret."}
+                </Typography>
+              </Box>
+
               <Box>
                 <FormControlLabel
                   control={
@@ -477,6 +672,82 @@ export default function CreateSecretPage() {
                   )}
                 </Box>
               </Box>
+
+              <Box>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.scheduleActivation}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          scheduleActivation: e.target.checked,
+                        })
+                      }
+                      disabled={createSecretMutation.isPending}
+                    />
+                  }
+                  label={
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <EventAvailable />
+                      Schedule Activation
+                    </Box>
+                  }
+                />
+                {settings.scheduleActivation && (
+                  <TextField
+                    fullWidth
+                    type="datetime-local"
+                    label="Available From"
+                    value={formData.activatesAt}
+                    onChange={(e) =>
+                      setFormData({ ...formData, activatesAt: e.target.value })
+                    }
+                    InputLabelProps={{ shrink: true }}
+                    sx={{ mt: 1 }}
+                    required
+                    error={!!errors.activatesAt}
+                    helperText={
+                      errors.activatesAt ||
+                      "The link shows a countdown until then. Expiry counts from this time."
+                    }
+                    disabled={createSecretMutation.isPending}
+                  />
+                )}
+              </Box>
+
+              <Box>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={settings.restrictIps}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          restrictIps: e.target.checked,
+                        })
+                      }
+                      disabled={createSecretMutation.isPending}
+                    />
+                  }
+                  label={
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <VpnLock />
+                      Restrict to IP Ranges
+                    </Box>
+                  }
+                />
+                {settings.restrictIps && (
+                  <IpAllowlistField
+                    value={formData.allowedCidrs}
+                    onChange={(allowedCidrs) =>
+                      setFormData({ ...formData, allowedCidrs })
+                    }
+                    error={errors.allowedCidrs}
+                    disabled={createSecretMutation.isPending}
+                  />
+                )}
+              </Box>
             </Box>
           </Box>
 
@@ -486,14 +757,19 @@ export default function CreateSecretPage() {
               type="submit"
               variant="contained"
               size="large"
-              disabled={createSecretMutation.isPending}
+              disabled={isSubmitting}
               sx={{
                 minWidth: 200,
                 bgcolor: "primary.main",
                 "&:hover": { bgcolor: "primary.dark" },
               }}
             >
-              {createSecretMutation.isPending ? (
+              {uploadProgress !== null ? (
+                <>
+                  <CircularProgress size={20} sx={{ mr: 1 }} />
+                  Uploading {Math.round(uploadProgress * 100)}%...
+                </>
+              ) : createSecretMutation.isPending ? (
                 <>
                   <CircularProgress size={20} sx={{ mr: 1 }} />
                   Creating...
@@ -554,6 +830,25 @@ export default function CreateSecretPage() {
             secret. Share it only with trusted recipients.
           </Typography>
 
+          {createdSecret?.slug && (
+            <>
+              <Divider sx={{ my: 3 }} />
+              <RecipientLinks
+                secretId={createdSecret.id}
+                slug={createdSecret.slug}
+                shareKey={shareKey}
+              />
+            </>
+          )}
+
+          {shareKey && (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              🔑 The decryption key is part of this link (after the #) and is
+              never sent to our servers. If you lose the link, the secret cannot
+              be recovered.
+            </Alert>
+          )}
+
           {settings.passwordProtected && (
             <Alert severity="info" sx={{ mt: 2 }}>
               🔐 This secret is password protected. Don&apos;t forget to share
@@ -561,6 +856,14 @@ export default function CreateSecretPage() {
             </Alert>
           )}
 
+          {createdSecret?.activatesAt && (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              📅 The link works from{" "}
+              {new Date(createdSecret.activatesAt).toLocaleString()}. Until then
+              it shows a countdown.
+            </Alert>
+          )}
+
           {settings.expirationEnabled && (
             <Alert severity="warning" sx={{ mt: 2 }}>
               ⏰ This secret will expire in {expirationDuration.value}{" "}
@@ -0,0 +1,1108 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  Container,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  Box,
+  FormControlLabel,
+  Switch,
+  Chip,
+  Alert,
+  CircularProgress,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  Security,
+  TextFields,
+  AttachFile,
+  Schedule,
+  EventAvailable,
+  VpnLock,
+  Visibility,
+  Password,
+  Public,
+  Save,
+  ArrowBack,
+  History,
+} from "@/lib/mui-components";
+import { useAuth } from "@/components/providers/auth-provider";
+import { trpc } from "@/components/providers/trpc-provider";
+import AuthModal from "@/components/auth/auth-modal";
+import EditConflictDialog from "@/components/secret/edit-conflict-dialog";
+import VersionHistoryDrawer from "@/components/secret/version-history-drawer";
+import IpAllowlistField from "@/components/secret/ip-allowlist-field";
+import Link from "next/link";
+import {
+  encryptContent,
+  decryptContent,
+  getKeyFromFragment,
+  buildShareLink,
+} from "@/lib/client-crypto";
+import { addDuration, toDateTimeLocal } from "@/lib/utils";
+import {
+  EXPIRATION_OPTIONS,
+  DEFAULT_EXPIRATION_DURATION,
+} from "@/lib/constants";
+import {
+  type SecretFormData,
+  type SecretFormSettings,
+  type ExpirationDuration,
+  type ExpirationUnit,
+  type FormErrors,
+  type SecretType,
+  type SecretDraft,
+} from "@/lib/types";
+
+export default function EditSecretPage() {
+  const { user, isLoading: authLoading } = useAuth();
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+  const params = useParams();
+  const router = useRouter();
+  const secretId = params.id as string;
+
+  const [secretType, setSecretType] = useState<SecretType>("text");
+  const [formData, setFormData] = useState<SecretFormData>({
+    title: "",
+    content: "",
+    password: "",
+    maxViews: "",
+    activatesAt: "",
+    allowedCidrs: [],
+  });
+  const [settings, setSettings] = useState<SecretFormSettings>({
+    isPublic: false,
+    passwordProtected: false,
+    expirationEnabled: false,
+    limitViews: false,
+    scheduleActivation: false,
+    restrictIps: false,
+  });
+  const [expirationDuration, setExpirationDuration] =
+    useState<ExpirationDuration>(DEFAULT_EXPIRATION_DURATION);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [successMessage, setSuccessMessage] = useState("");
+  // Key for client-side encrypted content, taken from the link fragment
+  const [encryptionKey, setEncryptionKey] = useState<string | null>(null);
+  // Set when content was re-encrypted under a new key and old links no longer decrypt
+  const [newShareLink, setNewShareLink] = useState<string | null>(null);
+  // Version the form is based on, sent with updates to detect conflicts
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [conflictOpen, setConflictOpen] = useState(false);
+  const [latestDraft, setLatestDraft] = useState<SecretDraft | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Set once a recipient has loaded the content through `reveal`
+  const [isContentRevealed, setIsContentRevealed] = useState(false);
+  const [revealPassword, setRevealPassword] = useState("");
+  const utils = trpc.useUtils();
+
+  // Get secret data
+  const {
+    data: secret,
+    isLoading: secretLoading,
+    error: secretError,
+    refetch: refetchSecret,
+  } = trpc.secret.getById.useQuery({ id: secretId }, { enabled: !!secretId });
+
+  // Update mutation
+  const updateSecretMutation = trpc.secret.update.useMutation({
+    onSuccess: (updated) => {
+      setSuccessMessage("Secret updated successfully!");
+      setBaseVersion(updated.version);
+    },
+    onError: (error) => {
+      setSuccessMessage("");
+      if (error.data?.code === "CONFLICT") {
+        setConflictOpen(true);
+        loadLatestDraft();
+      } else {
+        setErrors({ submit: error.message });
+      }
+    },
+  });
+
+  // Recipients don't get the content with the secret, since that doesn't
+  // count as a view. Revealing it does, against their share.
+  const revealMutation = trpc.secret.reveal.useMutation();
+
+  const handleRevealContent = () => {
+    if (!secret?.slug) return;
+
+    revealMutation.mutate(
+      {
+        slug: secret.slug,
+        password: secret.hasPassword ? revealPassword : undefined,
+      },
+      {
+        onSuccess: async (revealed) => {
+          let content = revealed.content;
+          if (revealed.iv) {
+            const key = getKeyFromFragment();
+            const plaintext = key
+              ? await decryptContent(content, revealed.iv, key).catch(
+                  () => null
+                )
+              : null;
+            if (plaintext === null) {
+              setErrors({
+                submit:
+                  "This content is end-to-end encrypted. Open this page from the full share link (including #key) to read it.",
+              });
+              return;
+            }
+            setEncryptionKey(key);
+            content = plaintext;
+          }
+          setFormData((prev) => ({ ...prev, content }));
+          setIsContentRevealed(true);
+        },
+        onError: (error) => {
+          setErrors({ submit: error.message });
+        },
+      }
+    );
+  };
+
+  // Fetch the version saved by someone else, bypassing the cached query so
+  // the form keeps the user's changes until they choose to reload
+  const loadLatestDraft = async () => {
+    setLatestDraft(null);
+    try {
+      const latest = await utils.client.secret.getById.query({ id: secretId });
+      let content = latest.content;
+      if (latest.iv && content !== null) {
+        content = encryptionKey
+          ? await decryptContent(content, latest.iv, encryptionKey).catch(
+              () => null
+            )
+          : null;
+      }
+      setLatestDraft({ title: latest.title, content });
+    } catch (err) {
+      console.error("Failed to load the current version:", err);
+    }
+  };
+
+  const handleReload = () => {
+    setConflictOpen(false);
+    setErrors({});
+    refetchSecret();
+  };
+
+  const handleRestored = () => {
+    setHistoryOpen(false);
+    setErrors({});
+    setSuccessMessage("Version restored");
+    refetchSecret();
+  };
+
+  // Scheduled activation time, null when links work right away
+  const getActivationDate = () =>
+    settings.scheduleActivation && formData.activatesAt
+      ? new Date(formData.activatesAt)
+      : null;
+
+  // Calculate expiration date based on duration, counted from activation
+  const calculateExpirationDate = () =>
+    addDuration(getActivationDate() ?? new Date(), expirationDuration);
+
+  // Calculate duration from expiration date, counted from `from`
+  const calculateDurationFromDate = (expiresAt: Date, from: Date) => {
+    const diffMs = expiresAt.getTime() - from.getTime();
+
+    if (diffMs <= 0) {
+      return { value: 1, unit: "hours" as const };
+    }
+
+    const diffMinutes = Math.floor(diffMs / (1000 * 60));
+    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+    if (diffMinutes < 60) {
+      return { value: diffMinutes, unit: "minutes" as const };
+    } else if (diffHours < 24) {
+      return { value: diffHours, unit: "hours" as const };
+    } else {
+      return { value: diffDays, unit: "days" as const };
+    }
+  };
+
+  // Load secret data into form when available
+  useEffect(() => {
+    if (secret) {
+      setBaseVersion(secret.version);
+      setIsContentRevealed(false);
+      setFormData({
+        title: secret.title || "",
+        content: secret.iv ? "" : secret.content || "",
+        password: "", // Only a hash is stored; leave blank to keep it
+        maxViews: secret.maxViews?.toString() || "",
+        activatesAt: secret.activatesAt
+          ? toDateTimeLocal(new Date(secret.activatesAt))
+          : "",
+        allowedCidrs: secret.allowedCidrs ?? [],
+      });
+
+      // Encrypted content can only be shown when the link fragment holds the key
+      if (secret.iv && secret.content !== null) {
+        const key = getKeyFromFragment();
+        if (key) {
+          decryptContent(secret.content, secret.iv, key)
+            .then((plaintext) => {
+              setEncryptionKey(key);
+              setFormData((prev) => ({ ...prev, content: plaintext }));
+            })
+            .catch((err) => {
+              console.error("Failed to decrypt content:", err);
+            });
+        }
+      }
+
+      // Only a pending activation is shown, one in the past no longer matters
+      const activatesAt =
+        secret.activatesAt && new Date(secret.activatesAt) > new Date()
+          ? new Date(secret.activatesAt)
+          : null;
+
+      setSettings({
+        isPublic: secret.isPublic,
+        passwordProtected: secret.hasPassword,
+        expirationEnabled: !!secret.expiresAt,
+        limitViews: !!secret.maxViews,
+        scheduleActivation: !!activatesAt,
+        restrictIps: !!secret.allowedCidrs?.length,
+      });
+
+      if (secret.expiresAt) {
+        const duration = calculateDurationFromDate(
+          new Date(secret.expiresAt),
+          activatesAt ?? new Date()
+        );
+        setExpirationDuration(duration);
+      }
+
+      setSecretType(secret.contentType === "TEXT" ? "text" : "file");
+    }
+  }, [secret]);
+
+  // Check authentication status
+  useEffect(() => {
+    if (!authLoading && !user) {
+      setAuthModalOpen(true);
+    }
+  }, [user, authLoading]);
+
+  // Recipients shared with EDIT can change the content but not who can
+  // access the secret
+  const canEdit = secret?.permission === "EDIT";
+  const isOwner = !!secret && secret.createdById === user?.id;
+
+  // Content that is password protected, not yet revealed to a recipient, or
+  // encrypted without its key in the URL, can be replaced but not read
+  const isContentLocked =
+    (secret?.content === null && !isContentRevealed) ||
+    (!!secret?.iv && !encryptionKey);
+  const canRevealContent =
+    !!secret?.slug && !isOwner && secret.content === null && !isContentRevealed;
+
+  // Show loading or auth modal if not authenticated
+  if (authLoading || secretLoading) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Box
+          sx={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            minHeight: "50vh",
+          }}
+        >
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!user) {
+    return (
+      <>
+        <Container maxWidth="md" sx={{ py: 4 }}>
+          <Paper
+            elevation={3}
+            sx={{ p: 4, textAlign: "center", bgcolor: "background.paper" }}
+          >
+            <Security sx={{ fontSize: 64, color: "primary.main", mb: 2 }} />
+            <Typography variant="h4" gutterBottom>
+              Authentication Required
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              Please sign in to edit secrets.
+            </Typography>
+            <Button
+              variant="contained"
+              size="large"
+              onClick={() => setAuthModalOpen(true)}
+            >
+              Sign In
+            </Button>
+          </Paper>
+        </Container>
+        <AuthModal
+          open={authModalOpen}
+          onClose={() => setAuthModalOpen(false)}
+        />
+      </>
+    );
+  }
+
+  // Refused from outside the secret's IP allowlist, among others
+  if (secretError?.data?.code === "FORBIDDEN") {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Paper elevation={3} sx={{ p: 4, textAlign: "center" }}>
+          <Typography variant="h4" gutterBottom color="error">
+            Access Denied
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+            {secretError.message}
+          </Typography>
+          <Button variant="contained" component={Link} href="/dashboard">
+            Back to Dashboard
+          </Button>
+        </Paper>
+      </Container>
+    );
+  }
+
+  if (secretError || !secret) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Paper elevation={3} sx={{ p: 4, textAlign: "center" }}>
+          <Typography variant="h4" gutterBottom color="error">
+            Secret Not Found
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+            The secret you&apos;re trying to edit doesn&apos;t exist or has been
+            deleted.
+          </Typography>
+          <Button variant="contained" component={Link} href="/dashboard">
+            Back to Dashboard
+          </Button>
+        </Paper>
+      </Container>
+    );
+  }
+
+  if (!canEdit) {
+    return (
+      <Container maxWidth="md" sx={{ py: 4 }}>
+        <Paper elevation={3} sx={{ p: 4, textAlign: "center" }}>
+          <Typography variant="h4" gutterBottom color="error">
+            Access Denied
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+            You don&apos;t have permission to edit this secret.
+          </Typography>
+          <Button variant="contained" component={Link} href="/dashboard">
+            Back to Dashboard
+          </Button>
+        </Paper>
+      </Container>
+    );
+  }
+
+  const validateForm = () => {
+    const newErrors: FormErrors = {};
+
+    // Required fields (encrypted content without its key may be left unchanged)
+    if (secretType === "text" && !formData.content.trim() && !isContentLocked) {
+      newErrors.content = "Secret content is required";
+    }
+
+    // Password validation (an existing password is kept when left blank)
+    if (
+      settings.passwordProtected &&
+      !secret.hasPassword &&
+      !formData.password.trim()
+    ) {
+      newErrors.password =
+        "Password is required when password protection is enabled";
+    }
+
+    // Max views validation
+    if (settings.limitViews) {
+      const maxViews = parseInt(formData.maxViews);
+      if (!maxViews || maxViews < 1) {
+        newErrors.maxViews = "Maximum views must be at least 1";
+      }
+      // Don't allow reducing max views below current views
+      if (maxViews < secret.currentViews) {
+        newErrors.maxViews = `Maximum views cannot be less than current views (${secret.currentViews})`;
+      }
+    }
+
+    if (settings.scheduleActivation) {
+      const activatesAt = getActivationDate();
+      if (!activatesAt || activatesAt <= new Date()) {
+        newErrors.activatesAt = "Choose a time in the future";
+      }
+    }
+
+    if (settings.restrictIps && formData.allowedCidrs.length === 0) {
+      newErrors.allowedCidrs = "Add at least one IP address or range";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSuccessMessage("");
+
+    if (!validateForm()) {
+      return;
+    }
+
+    // Prepare the data for submission
+    const updateData: {
+      id: string;
+      version: number;
+      title?: string;
+      content?: string;
+      iv?: string;
+      activatesAt?: Date | null;
+      expiresAt?: Date | null;
+      password?: string;
+      maxViews?: number;
+      allowedCidrs?: string[];
+      isPublic?: boolean;
+    } = {
+      id: secretId,
+      version: baseVersion ?? secret.version,
+      title: formData.title.trim() || "Untitled Secret",
+    };
+
+    const content = formData.content.trim();
+    let rekeyedLink: string | null = null;
+    if (content && secret.iv) {
+      // Re-encrypt in the browser; a missing key means a new key and a new link
+      try {
+        const encrypted = await encryptContent(
+          content,
+          encryptionKey || undefined
+        );
+        updateData.content = encrypted.ciphertext;
+        updateData.iv = encrypted.iv;
+        if (!encryptionKey) {
+          rekeyedLink = secret.slug
+            ? buildShareLink(secret.slug, encrypted.key)
+            : null;
+          setEncryptionKey(encrypted.key);
+          setNewShareLink(rekeyedLink);
+        }
+      } catch (err) {
+        console.error("Failed to encrypt content:", err);
+        setErrors({ submit: "Failed to encrypt secret in this browser" });
+        return;
+      }
+    } else if (content) {
+      updateData.content = content;
+    }
+
+    // Access settings are owner only, so recipients leave them out
+    if (isOwner) {
+      updateData.isPublic = settings.isPublic;
+
+      // Add optional fields only if they're enabled and have values
+      if (settings.passwordProtected && formData.password) {
+        updateData.password = formData.password;
+      } else if (!settings.passwordProtected) {
+        updateData.password = "";
+      }
+
+      updateData.activatesAt = getActivationDate();
+
+      if (settings.expirationEnabled) {
+        updateData.expiresAt = calculateExpirationDate();
+      } else {
+        updateData.expiresAt = null;
+      }
+
+      if (settings.limitViews && formData.maxViews) {
+        updateData.maxViews = parseInt(formData.maxViews);
+      } else if (!settings.limitViews) {
+        updateData.maxViews = undefined;
+      }
+
+      updateData.allowedCidrs = settings.restrictIps
+        ? formData.allowedCidrs
+        : [];
+    }
+
+    updateSecretMutation.mutate(updateData, {
+      onSuccess: () => {
+        // Stay on the page so the owner can copy a freshly generated link
+        if (rekeyedLink) return;
+        setTimeout(() => {
+          router.push("/dashboard");
+        }, 2000);
+      },
+    });
+  };
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Paper elevation={3} sx={{ p: 4, bgcolor: "background.paper" }}>
+        <Box sx={{ mb: 4 }}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2 }}>
+            <Button
+              startIcon={<ArrowBack />}
+              component={Link}
+              href="/dashboard"
+              variant="outlined"
+            >
+              Back to Dashboard
+            </Button>
+            <Button
+              startIcon={<History />}
+              onClick={() => setHistoryOpen(true)}
+              variant="outlined"
+            >
+              History
+            </Button>
+          </Box>
+
+          <Box sx={{ textAlign: "center" }}>
+            <Security sx={{ fontSize: 48, color: "primary.main", mb: 2 }} />
+            <Typography variant="h4" gutterBottom>
+              Edit Secret
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              {isOwner
+                ? "Modify your secret's content and security settings"
+                : "This secret was shared with you for editing"}
+            </Typography>
+            {secret.lastEdit && (
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: "block", mt: 1 }}
+              >
+                Last changed by{" "}
+                {secret.lastEdit.user?.name ??
+                  secret.lastEdit.user?.email ??
+                  "a deleted user"}{" "}
+                on {new Date(secret.lastEdit.createdAt).toLocaleString()}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+
+        {/* Success Message */}
+        {successMessage && (
+          <Alert severity="success" sx={{ mb: 3 }}>
+            {successMessage}
+          </Alert>
+        )}
+
+        {/* Error Message */}
+        {errors.submit && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {errors.submit}
+          </Alert>
+        )}
+
+        {/* New link after re-encrypting under a fresh key */}
+        {newShareLink && successMessage && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            The content was encrypted with a new key, so previous links no
+            longer work. Share this link instead:
+            <Box
+              component="code"
+              sx={{ display: "block", mt: 1, wordBreak: "break-all" }}
+            >
+              {newShareLink}
+            </Box>
+          </Alert>
+        )}
+
+        {/* Warning about existing views */}
+        {secret.currentViews > 0 && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            This secret has been viewed {secret.currentViews} time(s). Changes
+            will apply to future access attempts.
+          </Alert>
+        )}
+
+        <Box component="form" onSubmit={handleSubmit}>
+          {/* Secret Type Selection */}
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Secret Type
+            </Typography>
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Chip
+                icon={<TextFields />}
+                label="Text Secret"
+                color={secretType === "text" ? "primary" : "default"}
+                variant={secretType === "text" ? "filled" : "outlined"}
+                disabled={secretType !== "text"}
+              />
+              <Chip
+                icon={<AttachFile />}
+                label="File Upload"
+                color={secretType === "file" ? "primary" : "default"}
+                variant={secretType === "file" ? "filled" : "outlined"}
+                disabled={secretType !== "file"}
+              />
+            </Box>
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ mt: 1, display: "block" }}
+            >
+              The type of an existing secret can&apos;t be changed.
+            </Typography>
+          </Box>
+
+          {/* Basic Information */}
+          <Box sx={{ mb: 3 }}>
+            <TextField
+              fullWidth
+              label="Secret Title (Optional)"
+              value={formData.title}
+              onChange={(e) =>
+                setFormData({ ...formData, title: e.target.value })
+              }
+              placeholder="Enter a descriptive title"
+              sx={{ mb: 2 }}
+              disabled={updateSecretMutation.isPending}
+            />
+
+            {secretType === "text" ? (
+              <>
+                <TextField
+                  fullWidth
+                  multiline
+                  rows={6}
+                  label={
+                    isContentLocked ? "New Secret Content" : "Secret Content"
+                  }
+                  value={formData.content}
+                  onChange={(e) =>
+                    setFormData({ ...formData, content: e.target.value })
+                  }
+                  placeholder={
+                    isContentLocked
+                      ? "Leave empty to keep the current encrypted content"
+                      : "Enter your secret content here..."
+                  }
+                  required={!isContentLocked}
+                  error={!!errors.content}
+                  helperText={
+                    errors.content ||
+                    (isContentLocked
+                      ? canRevealContent
+                        ? secret.hasPassword
+                          ? "Shared content isn't shown until you load it with the secret's password, which counts as a view. Enter new content to replace it instead."
+                          : "Shared content isn't shown until you load it, which counts as a view. Enter new content to replace it instead."
+                        : secret.isClientIpAllowed === false
+                          ? "Your network isn't in this secret's IP allowlist, so its content isn't shown. Enter new content to replace it, or change the allowlist below."
+                          : secret.hasPassword
+                            ? "This content is password protected and can't be shown here. Enter new content to replace it."
+                            : secret.content === null
+                              ? "This secret has no link to load its content from. Enter new content to replace it."
+                              : "This content is end-to-end encrypted. Open this page from the full share link (including #key) to edit it, or enter new content to replace it under a new key."
+                      : undefined)
+                  }
+                  disabled={updateSecretMutation.isPending}
+                />
+                {canRevealContent && (
+                  <Box
+                    sx={{
+                      display: "flex",
+                      gap: 1,
+                      alignItems: "flex-start",
+                      mt: 1,
+                    }}
+                  >
+                    {secret.hasPassword && (
+                      <TextField
+                        size="small"
+                        type="password"
+                        label="Secret Password"
+                        value={revealPassword}
+                        onChange={(e) => setRevealPassword(e.target.value)}
+                        onKeyDown={(e) => {
+                          // Load the content rather than submit the form
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            if (revealPassword) handleRevealContent();
+                          }
+                        }}
+                        disabled={revealMutation.isPending}
+                      />
+                    )}
+                    <Button
+                      variant="outlined"
+                      startIcon={<Visibility />}
+                      onClick={handleRevealContent}
+                      disabled={
+                        revealMutation.isPending ||
+                        updateSecretMutation.isPending ||
+                        (secret.hasPassword && !revealPassword)
+                      }
+                    >
+                      Load Current Content (Counts as a View)
+                    </Button>
+                  </Box>
+                )}
+              </>
+            ) : (
+              <Box
+                sx={{
+                  border: "2px dashed",
+                  borderColor: "grey.300",
+                  borderRadius: 2,
+                  p: 4,
+                  textAlign: "center",
+                  bgcolor: "grey.50",
+                }}
+              >
+                <AttachFile sx={{ fontSize: 48, color: "grey.400", mb: 1 }} />
+                <Typography variant="h6" gutterBottom>
+                  {secret.fileName}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  The attached file can&apos;t be replaced. Create a new secret
+                  to share a different file.
+                </Typography>
+              </Box>
+            )}
+          </Box>
+
+          {/* Security Settings */}
+          {!isOwner ? (
+            <Alert severity="info" sx={{ mt: 4 }}>
+              Only the owner can change who can access this secret.
+            </Alert>
+          ) : (
+            <Box sx={{ mt: 4 }}>
+              <Typography variant="h6" gutterBottom>
+                Security Settings
+              </Typography>
+
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 3 }}>
+                <Box>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.isPublic}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            isPublic: e.target.checked,
+                          })
+                        }
+                        disabled={updateSecretMutation.isPending}
+                      />
+                    }
+                    label={
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <Public />
+                        Anyone With the Link
+                      </Box>
+                    }
+                  />
+                  <Typography variant="body2" color="text.secondary">
+                    {settings.isPublic
+                      ? "Anyone who has the link can view this secret."
+                      : "Only you and the people you share it with can view this secret."}
+                  </Typography>
+                </Box>
+
+                <Box>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.passwordProtected}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            passwordProtected: e.target.checked,
+                          })
+                        }
+                        disabled={updateSecretMutation.isPending}
+                      />
+                    }
+                    label={
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <Password />
+                        Password Protection
+                      </Box>
+                    }
+                  />
+                  {settings.passwordProtected && (
+                    <TextField
+                      fullWidth
+                      type="password"
+                      label="Access Password"
+                      value={formData.password}
+                      onChange={(e) =>
+                        setFormData({ ...formData, password: e.target.value })
+                      }
+                      sx={{ mt: 1 }}
+                      required={!secret.hasPassword}
+                      error={!!errors.password}
+                      helperText={
+                        errors.password ||
+                        (secret.hasPassword
+                          ? "Leave blank to keep the current password"
+                          : undefined)
+                      }
+                      disabled={updateSecretMutation.isPending}
+                    />
+                  )}
+                </Box>
+
+                <Box sx={{ display: "flex", gap: 3, flexWrap: "wrap" }}>
+                  <Box sx={{ flex: 1, minWidth: 250 }}>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={settings.expirationEnabled}
+                          onChange={(e) =>
+                            setSettings({
+                              ...settings,
+                              expirationEnabled: e.target.checked,
+                            })
+                          }
+                          disabled={updateSecretMutation.isPending}
+                        />
+                      }
+                      label={
+                        <Box
+                          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                        >
+                          <Schedule />
+                          Auto Expiration
+                        </Box>
+                      }
+                    />
+                    {settings.expirationEnabled && (
+                      <FormControl fullWidth sx={{ mt: 1 }}>
+                        <InputLabel>Expires In</InputLabel>
+                        <Select
+                          value={`${expirationDuration.value}-${expirationDuration.unit}`}
+                          label="Expires In"
+                          onChange={(e) => {
+                            const [value, unit] = e.target.value.split("-");
+                            setExpirationDuration({
+                              value: parseInt(value),
+                              unit: unit as ExpirationUnit,
+                            });
+                          }}
+                          disabled={updateSecretMutation.isPending}
+                        >
+                          {EXPIRATION_OPTIONS.map((option) => (
+                            <MenuItem
+                              key={`${option.value}-${option.unit}`}
+                              value={`${option.value}-${option.unit}`}
+                            >
+                              {option.label}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    )}
+                  </Box>
+
+                  <Box sx={{ flex: 1, minWidth: 250 }}>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={settings.limitViews}
+                          onChange={(e) =>
+                            setSettings({
+                              ...settings,
+                              limitViews: e.target.checked,
+                            })
+                          }
+                          disabled={updateSecretMutation.isPending}
+                        />
+                      }
+                      label={
+                        <Box
+                          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                        >
+                          <Visibility />
+                          Limit Views
+                        </Box>
+                      }
+                    />
+                    {settings.limitViews && (
+                      <TextField
+                        fullWidth
+                        type="number"
+                        label="Maximum Views"
+                        value={formData.maxViews}
+                        onChange={(e) =>
+                          setFormData({ ...formData, maxViews: e.target.value })
+                        }
+                        inputProps={{ min: secret.currentViews || 1, max: 100 }}
+                        sx={{ mt: 1 }}
+                        required
+                        error={!!errors.maxViews}
+                        helperText={
+                          errors.maxViews ||
+                          `Current views: ${secret.currentViews}`
+                        }
+                        disabled={updateSecretMutation.isPending}
+                      />
+                    )}
+                  </Box>
+                </Box>
+
+                <Box>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.scheduleActivation}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            scheduleActivation: e.target.checked,
+                          })
+                        }
+                        disabled={updateSecretMutation.isPending}
+                      />
+                    }
+                    label={
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <EventAvailable />
+                        Schedule Activation
+                      </Box>
+                    }
+                  />
+                  {settings.scheduleActivation && (
+                    <TextField
+                      fullWidth
+                      type="datetime-local"
+                      label="Available From"
+                      value={formData.activatesAt}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          activatesAt: e.target.value,
+                        })
+                      }
+                      InputLabelProps={{ shrink: true }}
+                      sx={{ mt: 1 }}
+                      required
+                      error={!!errors.activatesAt}
+                      helperText={
+                        errors.activatesAt ||
+                        "The link shows a countdown until then. Expiry counts from this time."
+                      }
+                      disabled={updateSecretMutation.isPending}
+                    />
+                  )}
+                </Box>
+
+                <Box>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={settings.restrictIps}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            restrictIps: e.target.checked,
+                          })
+                        }
+                        disabled={updateSecretMutation.isPending}
+                      />
+                    }
+                    label={
+                      <Box
+                        sx={{ display: "flex", alignItems: "center", gap: 1 }}
+                      >
+                        <VpnLock />
+                        Restrict to IP Ranges
+                      </Box>
+                    }
+                  />
+                  {settings.restrictIps && (
+                    <IpAllowlistField
+                      value={formData.allowedCidrs}
+                      onChange={(allowedCidrs) =>
+                        setFormData({ ...formData, allowedCidrs })
+                      }
+                      error={errors.allowedCidrs}
+                      disabled={updateSecretMutation.isPending}
+                    />
+                  )}
+                </Box>
+              </Box>
+            </Box>
+          )}
+
+          {/* Submit Button */}
+          <Box sx={{ mt: 4, textAlign: "center" }}>
+            <Button
+              type="submit"
+              variant="contained"
+              size="large"
+              disabled={updateSecretMutation.isPending}
+              startIcon={
+                updateSecretMutation.isPending ? (
+                  <CircularProgress size={20} />
+                ) : (
+                  <Save />
+                )
+              }
+              sx={{
+                minWidth: 200,
+                bgcolor: "primary.main",
+                "&:hover": { bgcolor: "primary.dark" },
+              }}
+            >
+              {updateSecretMutation.isPending ? "Updating..." : "Update Secret"}
+            </Button>
+          </Box>
+        </Box>
+      </Paper>
+
+      <EditConflictDialog
+        open={conflictOpen}
+        onClose={() => setConflictOpen(false)}
+        mine={{
+          title: formData.title,
+          content: isContentLocked ? null : formData.content,
+        }}
+        latest={latestDraft}
+        onReload={handleReload}
+      />
+
+      <VersionHistoryDrawer
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        secretId={secretId}
+        version={baseVersion ?? secret.version}
+        onRestored={handleRestored}
+      />
+    </Container>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
+import { keepPreviousData } from "@tanstack/react-query";
 import {
   Container,
   Typography,
@@ -13,11 +14,21 @@ import {
   IconButton,
   Menu,
   MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
   Alert,
   InputAdornment,
   Paper,
   Divider,
   CircularProgress,
+  Tabs,
+  Tab,
+  Checkbox,
   Add,
   Search,
   MoreVert,
@@ -28,32 +39,189 @@ import {
   Timer,
   Lock,
   Security,
+  Autorenew,
+  LinkOff,
+  Share,
+  Folder,
+  LocalOffer,
 } from "@/lib/mui-components";
 import Link from "next/link";
 import { trpc } from "@/components/providers/trpc-provider";
+import RecipientLinks from "@/components/secret/recipient-links";
+import TrashList from "@/components/secret/trash-list";
+import FolderManagerDialog from "@/components/secret/folder-manager-dialog";
+import OrganizeSecretDialog from "@/components/secret/organize-secret-dialog";
+import HighlightedText from "@/components/secret/highlighted-text";
+import BulkActionsBar from "@/components/secret/bulk-actions-bar";
+import ExpiringSoonList from "@/components/secret/expiring-soon-list";
+import { flattenFolderTree } from "@/lib/utils";
+import {
+  type BulkItemResult,
+  type SearchHighlight,
+  type SecretFilters,
+  type SecretSortField,
+  type SortDirection,
+} from "@/lib/types";
+
+const SORT_OPTIONS = {
+  newest: { label: "Newest first", field: "createdAt", direction: "desc" },
+  oldest: { label: "Oldest first", field: "createdAt", direction: "asc" },
+  title: { label: "Title", field: "title", direction: "asc" },
+  expiring: { label: "Expiring soonest", field: "expiresAt", direction: "asc" },
+  views: { label: "Most viewed", field: "currentViews", direction: "desc" },
+} satisfies Record<
+  string,
+  { label: string; field: SecretSortField; direction: SortDirection }
+>;
+
+type SortOption = keyof typeof SORT_OPTIONS;
 
 export default function DashboardPage() {
   const [searchTerm, setSearchTerm] = useState("");
+  // Search term sent to the server, debounced while typing
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SortOption>("newest");
+  const [status, setStatus] = useState<"all" | "active" | "expired">("all");
+  const [password, setPassword] = useState<"any" | "with" | "without">("any");
+  const [createdAfter, setCreatedAfter] = useState("");
+  const [createdBefore, setCreatedBefore] = useState("");
+  // "all", "none" for secrets in no folder, or a folder ID
+  const [folderFilter, setFolderFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("");
+  const [foldersOpen, setFoldersOpen] = useState(false);
+  // Secret whose folder and tags are being edited
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedSecret, setSelectedSecret] = useState<string | null>(null);
+  // Secret whose recipients are being managed
+  const [sharingSecretId, setSharingSecretId] = useState<string | null>(null);
+  const [view, setView] = useState<"secrets" | "trash">("secrets");
+  // Secrets picked for bulk actions
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Date inputs give local days; both ends of the range are inclusive
+  const filters: SecretFilters = {
+    ...(status !== "all" && { isExpired: status === "expired" }),
+    ...(password !== "any" && { hasPassword: password === "with" }),
+    ...(createdAfter && { createdAfter: new Date(`${createdAfter}T00:00`) }),
+    ...(createdBefore && {
+      createdBefore: new Date(`${createdBefore}T23:59:59.999`),
+    }),
+    ...(folderFilter !== "all" && {
+      folderId: folderFilter === "none" ? null : folderFilter,
+    }),
+    ...(tagFilter && { tag: tagFilter }),
+  };
+  const isFiltered = !!query || Object.keys(filters).length > 0;
+
+  // Fetch user's secrets a page at a time in the chosen order, or ranked by
+  // full-text search while there is a search term. Current results stay on
+  // screen while a new search loads.
+  const browse = trpc.secret.search.useInfiniteQuery(
+    {
+      sortField: SORT_OPTIONS[sort].field,
+      sortDirection: SORT_OPTIONS[sort].direction,
+      filters,
+    },
+    {
+      enabled: !query,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: keepPreviousData,
+    }
+  );
+  const textSearch = trpc.secret.textSearch.useInfiniteQuery(
+    { query, filters },
+    {
+      enabled: !!query,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: keepPreviousData,
+    }
+  );
+
+  const browsed = browse.data?.pages.flatMap((page) => page.items) ?? [];
+  const matched = textSearch.data?.pages.flatMap((page) => page.items) ?? [];
+  const secrets: ((typeof browsed)[number] & {
+    highlight?: SearchHighlight;
+  })[] = query ? matched : browsed;
+
+  const { isLoading, error } = browse;
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = query
+    ? textSearch
+    : browse;
+
+  const { data: stats } = trpc.secret.getStats.useQuery();
+  const { data: folders } = trpc.folder.list.useQuery();
+  const { data: tags } = trpc.secret.listTags.useQuery();
+  const folderTree = flattenFolderTree(folders ?? []);
+  const folderNames = new Map(
+    folders?.map((folder) => [folder.id, folder.name])
+  );
+
+  const refreshSecrets = () => {
+    utils.secret.search.invalidate();
+    utils.secret.textSearch.invalidate();
+    utils.secret.getStats.invalidate();
+    utils.secret.listExpiringSoon.invalidate();
+    utils.secret.listTags.invalidate();
+    utils.folder.list.invalidate();
+  };
 
-  // Fetch user's secrets
-  const {
-    data: secrets,
-    isLoading,
-    error,
-    refetch,
-  } = trpc.secret.getAll.useQuery();
+  // Load the next page once the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
 
-  // Delete mutation
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [view, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Delete mutation, moves the secret to the trash
   const deleteSecretMutation = trpc.secret.delete.useMutation({
     onSuccess: () => {
-      refetch();
+      refreshSecrets();
+      utils.secret.listDeleted.invalidate();
       setAnchorEl(null);
       setSelectedSecret(null);
     },
   });
 
+  // Link mutations: a new slug invalidates old links, revoking disables them
+  const rotateSlugMutation = trpc.secret.rotateSlug.useMutation({
+    onSuccess: () => {
+      refreshSecrets();
+      handleMenuClose();
+    },
+  });
+
+  const revokeSlugMutation = trpc.secret.revokeSlug.useMutation({
+    onSuccess: () => {
+      refreshSecrets();
+      handleMenuClose();
+    },
+  });
+
+  const selectedSlug =
+    secrets.find((secret) => secret.id === selectedSecret)?.slug ?? null;
+  const sharingSecret = secrets.find((secret) => secret.id === sharingSecretId);
+  const organizingSecret =
+    secrets.find((secret) => secret.id === organizingId) ?? null;
+
   const handleMenuClick = (
     event: React.MouseEvent<HTMLElement>,
     secretId: string
@@ -67,26 +235,35 @@ export default function DashboardPage() {
     setSelectedSecret(null);
   };
 
-  const handleCopyUrl = async (secretId: string) => {
-    const url = `${window.location.origin}/secret/${secretId}`;
+  const handleCopyUrl = async (slug: string) => {
+    const url = `${window.location.origin}/secret/${slug}`;
     await navigator.clipboard.writeText(url);
     handleMenuClose();
   };
 
+  const toggleSelected = (secretId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(secretId)
+        ? ids.filter((id) => id !== secretId)
+        : [...ids, secretId]
+    );
+  };
+
+  // Keep the secrets an action failed for selected, so it can be retried
+  const handleBulkDone = (results: BulkItemResult[]) => {
+    setSelectedIds(
+      results.filter((result) => !result.success).map((result) => result.id)
+    );
+    refreshSecrets();
+    utils.secret.listDeleted.invalidate();
+  };
+
   const handleDeleteSecret = () => {
     if (selectedSecret) {
       deleteSecretMutation.mutate({ id: selectedSecret });
     }
   };
 
-  // Filter secrets based on search term
-  const filteredSecrets =
-    secrets?.filter(
-      (secret) =>
-        secret.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        secret.description?.toLowerCase().includes(searchTerm.toLowerCase())
-    ) || [];
-
   const getStatusColor = (secret: {
     isActive: boolean;
     expiresAt?: Date | null;
@@ -155,272 +332,455 @@ export default function DashboardPage() {
   return (
     <Container maxWidth="lg">
       <Box sx={{ py: 4 }}>
-        {/* Actions Bar */}
-        <Paper sx={{ p: 3, mb: 4 }}>
-          <Box
-            sx={{
-              display: "flex",
-              gap: 2,
-              alignItems: "center",
-              flexWrap: "wrap",
-            }}
-          >
-            <TextField
-              placeholder="Search secrets..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              sx={{ flexGrow: 1, minWidth: 200 }}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <Search />
-                  </InputAdornment>
-                ),
-              }}
-            />
-          </Box>
-        </Paper>
-
-        {/* Stats Cards */}
-        <Box
-          sx={{
-            display: "grid",
-            gridTemplateColumns: {
-              xs: "1fr",
-              sm: "repeat(2, 1fr)",
-              md: "repeat(4, 1fr)",
-            },
-            gap: 3,
-            mb: 4,
-          }}
+        <Tabs
+          value={view}
+          onChange={(_, value: "secrets" | "trash") => setView(value)}
+          sx={{ mb: 3 }}
         >
-          <Card>
-            <CardContent sx={{ textAlign: "center" }}>
-              <Typography variant="h4" color="primary" gutterBottom>
-                {secrets?.length || 0}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Total Secrets
-              </Typography>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent sx={{ textAlign: "center" }}>
-              <Typography variant="h4" color="success.main" gutterBottom>
-                {secrets?.filter(
-                  (s) =>
-                    s.isActive &&
-                    (!s.expiresAt || new Date() < new Date(s.expiresAt))
-                ).length || 0}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Active Secrets
-              </Typography>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent sx={{ textAlign: "center" }}>
-              <Typography variant="h4" color="warning.main" gutterBottom>
-                {secrets?.reduce((sum, s) => sum + s.currentViews, 0) || 0}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Total Views
-              </Typography>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardContent sx={{ textAlign: "center" }}>
-              <Typography variant="h4" color="error.main" gutterBottom>
-                {secrets?.filter(
-                  (s) => s.expiresAt && new Date() > new Date(s.expiresAt)
-                ).length || 0}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Expired Secrets
-              </Typography>
-            </CardContent>
-          </Card>
-        </Box>
+          <Tab value="secrets" label="Secrets" />
+          <Tab value="trash" label="Trash" />
+        </Tabs>
 
-        {/* Secrets List */}
-        {filteredSecrets.length === 0 ? (
-          <Paper sx={{ p: 6, textAlign: "center" }}>
-            {searchTerm ? (
-              <>
-                <Search sx={{ fontSize: 64, color: "text.secondary", mb: 2 }} />
-                <Typography variant="h6" gutterBottom>
-                  No secrets found
-                </Typography>
-                <Typography variant="body2" color="text.secondary">
-                  Try adjusting your search terms
-                </Typography>
-              </>
-            ) : (
-              <>
-                <Security
-                  sx={{ fontSize: 64, color: "text.secondary", mb: 2 }}
-                />
-                <Typography variant="h6" gutterBottom>
-                  No secrets yet
-                </Typography>
-                <Typography
-                  variant="body2"
-                  color="text.secondary"
-                  sx={{ mb: 3 }}
-                >
-                  Create your first secret to get started
-                </Typography>
-                <Button
-                  variant="contained"
-                  startIcon={<Add />}
-                  component={Link}
-                  href="/create"
-                >
-                  Create Secret
-                </Button>
-              </>
-            )}
-          </Paper>
+        {view === "trash" ? (
+          <TrashList onRestored={refreshSecrets} />
         ) : (
-          <Box
-            sx={{
-              display: "grid",
-              gridTemplateColumns: {
-                xs: "1fr",
-                sm: "repeat(2, 1fr)",
-                lg: "repeat(3, 1fr)",
-              },
-              gap: 3,
-            }}
-          >
-            {filteredSecrets.map((secret) => (
-              <Card
-                key={secret.id}
+          <>
+            {/* Actions Bar */}
+            <Paper sx={{ p: 3, mb: 4 }}>
+              <Box
                 sx={{
-                  height: "100%",
                   display: "flex",
-                  flexDirection: "column",
+                  gap: 2,
+                  alignItems: "center",
+                  flexWrap: "wrap",
                 }}
               >
-                <CardContent sx={{ flexGrow: 1 }}>
-                  {/* Header */}
-                  <Box
-                    sx={{
-                      display: "flex",
-                      justifyContent: "space-between",
-                      alignItems: "flex-start",
-                      mb: 2,
-                    }}
+                <TextField
+                  placeholder="Search secrets..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  sx={{ flexGrow: 1, minWidth: 200 }}
+                  InputProps={{
+                    startAdornment: (
+                      <InputAdornment position="start">
+                        <Search />
+                      </InputAdornment>
+                    ),
+                  }}
+                />
+                <FormControl sx={{ minWidth: 170 }} disabled={!!query}>
+                  <InputLabel>Sort by</InputLabel>
+                  <Select
+                    value={query ? "relevance" : sort}
+                    label="Sort by"
+                    onChange={(e) => setSort(e.target.value as SortOption)}
                   >
-                    <Typography
-                      variant="h6"
-                      component="h3"
-                      sx={{ flexGrow: 1, mr: 1 }}
-                    >
-                      {secret.title}
-                    </Typography>
-                    <Box sx={{ display: "flex", gap: 0.5 }}>
-                      <IconButton
-                        size="small"
-                        component={Link}
-                        href={`/secret/${secret.id}/edit`}
-                        title="Edit secret"
-                      >
-                        <Edit fontSize="small" />
-                      </IconButton>
-                      <IconButton
-                        size="small"
-                        onClick={(e) => handleMenuClick(e, secret.id)}
-                      >
-                        <MoreVert />
-                      </IconButton>
-                    </Box>
-                  </Box>
+                    {/* Search results are always ranked */}
+                    <MenuItem value="relevance" disabled>
+                      Relevance
+                    </MenuItem>
+                    {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                      <MenuItem key={value} value={value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl sx={{ minWidth: 130 }}>
+                  <InputLabel>Status</InputLabel>
+                  <Select
+                    value={status}
+                    label="Status"
+                    onChange={(e) => setStatus(e.target.value as typeof status)}
+                  >
+                    <MenuItem value="all">All</MenuItem>
+                    <MenuItem value="active">Not expired</MenuItem>
+                    <MenuItem value="expired">Expired</MenuItem>
+                  </Select>
+                </FormControl>
+                <FormControl sx={{ minWidth: 150 }}>
+                  <InputLabel>Password</InputLabel>
+                  <Select
+                    value={password}
+                    label="Password"
+                    onChange={(e) =>
+                      setPassword(e.target.value as typeof password)
+                    }
+                  >
+                    <MenuItem value="any">Any</MenuItem>
+                    <MenuItem value="with">Protected</MenuItem>
+                    <MenuItem value="without">Not protected</MenuItem>
+                  </Select>
+                </FormControl>
+                <FormControl sx={{ minWidth: 160 }}>
+                  <InputLabel>Folder</InputLabel>
+                  <Select
+                    value={folderFilter}
+                    label="Folder"
+                    onChange={(e) => setFolderFilter(e.target.value)}
+                  >
+                    <MenuItem value="all">All folders</MenuItem>
+                    <MenuItem value="none">No folder</MenuItem>
+                    {folderTree.map((folder) => (
+                      <MenuItem key={folder.id} value={folder.id}>
+                        <Box sx={{ pl: folder.depth * 2 }}>{folder.name}</Box>
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl sx={{ minWidth: 130 }}>
+                  <InputLabel>Tag</InputLabel>
+                  <Select
+                    value={tagFilter}
+                    label="Tag"
+                    onChange={(e) => setTagFilter(e.target.value)}
+                  >
+                    <MenuItem value="">All tags</MenuItem>
+                    {tags?.map((tag) => (
+                      <MenuItem key={tag} value={tag}>
+                        {tag}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Created from"
+                  type="date"
+                  value={createdAfter}
+                  onChange={(e) => setCreatedAfter(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <TextField
+                  label="Created until"
+                  type="date"
+                  value={createdBefore}
+                  onChange={(e) => setCreatedBefore(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                />
+                <Button
+                  variant="outlined"
+                  startIcon={<Folder />}
+                  onClick={() => setFoldersOpen(true)}
+                >
+                  Folders
+                </Button>
+              </Box>
+            </Paper>
+
+            <ExpiringSoonList onRenewed={refreshSecrets} />
+
+            {/* Stats Cards */}
+            <Box
+              sx={{
+                display: "grid",
+                gridTemplateColumns: {
+                  xs: "1fr",
+                  sm: "repeat(2, 1fr)",
+                  md: "repeat(4, 1fr)",
+                },
+                gap: 3,
+                mb: 4,
+              }}
+            >
+              <Card>
+                <CardContent sx={{ textAlign: "center" }}>
+                  <Typography variant="h4" color="primary" gutterBottom>
+                    {stats?.total ?? 0}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Total Secrets
+                  </Typography>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent sx={{ textAlign: "center" }}>
+                  <Typography variant="h4" color="success.main" gutterBottom>
+                    {stats?.active ?? 0}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Active Secrets
+                  </Typography>
+                </CardContent>
+              </Card>
 
-                  {/* Description */}
-                  {secret.description && (
+              <Card>
+                <CardContent sx={{ textAlign: "center" }}>
+                  <Typography variant="h4" color="warning.main" gutterBottom>
+                    {stats?.views ?? 0}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Total Views
+                  </Typography>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent sx={{ textAlign: "center" }}>
+                  <Typography variant="h4" color="error.main" gutterBottom>
+                    {stats?.expired ?? 0}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Expired Secrets
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Box>
+
+            <BulkActionsBar
+              selectedIds={selectedIds}
+              onSelectAll={() =>
+                setSelectedIds(secrets.map((secret) => secret.id))
+              }
+              onClear={() => setSelectedIds([])}
+              onDone={handleBulkDone}
+            />
+
+            {/* Secrets List */}
+            {query && textSearch.error ? (
+              <Alert severity="error">
+                Search failed. Please try again later.
+              </Alert>
+            ) : query && textSearch.isLoading ? (
+              <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : secrets.length === 0 ? (
+              <Paper sx={{ p: 6, textAlign: "center" }}>
+                {isFiltered ? (
+                  <>
+                    <Search
+                      sx={{ fontSize: 64, color: "text.secondary", mb: 2 }}
+                    />
+                    <Typography variant="h6" gutterBottom>
+                      No secrets found
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Try adjusting your search terms or filters
+                    </Typography>
+                  </>
+                ) : (
+                  <>
+                    <Security
+                      sx={{ fontSize: 64, color: "text.secondary", mb: 2 }}
+                    />
+                    <Typography variant="h6" gutterBottom>
+                      No secrets yet
+                    </Typography>
                     <Typography
                       variant="body2"
                       color="text.secondary"
-                      sx={{ mb: 2 }}
+                      sx={{ mb: 3 }}
                     >
-                      {secret.description.length > 100
-                        ? `${secret.description.substring(0, 100)}...`
-                        : secret.description}
+                      Create your first secret to get started
                     </Typography>
-                  )}
-
-                  {/* Status */}
-                  <Chip
-                    label={getStatusText(secret)}
-                    color={getStatusColor(secret)}
-                    size="small"
-                    sx={{ mb: 2 }}
-                  />
-
-                  {/* Metadata */}
-                  <Box
-                    sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 2 }}
+                    <Button
+                      variant="contained"
+                      startIcon={<Add />}
+                      component={Link}
+                      href="/create"
+                    >
+                      Create Secret
+                    </Button>
+                  </>
+                )}
+              </Paper>
+            ) : (
+              <Box
+                sx={{
+                  display: "grid",
+                  gridTemplateColumns: {
+                    xs: "1fr",
+                    sm: "repeat(2, 1fr)",
+                    lg: "repeat(3, 1fr)",
+                  },
+                  gap: 3,
+                }}
+              >
+                {secrets.map((secret) => (
+                  <Card
+                    key={secret.id}
+                    sx={{
+                      height: "100%",
+                      display: "flex",
+                      flexDirection: "column",
+                    }}
                   >
-                    {secret.password && (
-                      <Chip
-                        size="small"
-                        icon={<Lock />}
-                        label="Password"
-                        variant="outlined"
-                      />
-                    )}
-                    {secret.deleteAfterView && (
-                      <Chip
-                        size="small"
-                        icon={<Visibility />}
-                        label="One-time"
-                        variant="outlined"
-                      />
-                    )}
-                    {secret.expiresAt ? (
-                      <Chip
-                        size="small"
-                        icon={<Timer />}
-                        label={new Date(secret.expiresAt).toLocaleDateString()}
-                        variant="outlined"
-                      />
-                    ) : (
+                    <CardContent sx={{ flexGrow: 1 }}>
+                      {/* Header */}
+                      <Box
+                        sx={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          alignItems: "flex-start",
+                          mb: 2,
+                        }}
+                      >
+                        <Checkbox
+                          size="small"
+                          checked={selectedIds.includes(secret.id)}
+                          onChange={() => toggleSelected(secret.id)}
+                          inputProps={{ "aria-label": "Select secret" }}
+                          sx={{ p: 0.5, mr: 1 }}
+                        />
+                        <Typography
+                          variant="h6"
+                          component="h3"
+                          sx={{ flexGrow: 1, mr: 1 }}
+                        >
+                          {secret.highlight ? (
+                            <HighlightedText text={secret.highlight.title} />
+                          ) : (
+                            secret.title
+                          )}
+                        </Typography>
+                        <Box sx={{ display: "flex", gap: 0.5 }}>
+                          <IconButton
+                            size="small"
+                            component={Link}
+                            href={`/dashboard/${secret.id}/edit`}
+                            title="Edit secret"
+                          >
+                            <Edit fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => handleMenuClick(e, secret.id)}
+                          >
+                            <MoreVert />
+                          </IconButton>
+                        </Box>
+                      </Box>
+
+                      {/* Description, or the parts matching the search */}
+                      {secret.highlight?.snippet ? (
+                        <Typography
+                          variant="body2"
+                          color="text.secondary"
+                          sx={{ mb: 2 }}
+                        >
+                          <HighlightedText text={secret.highlight.snippet} />
+                        </Typography>
+                      ) : (
+                        secret.description && (
+                          <Typography
+                            variant="body2"
+                            color="text.secondary"
+                            sx={{ mb: 2 }}
+                          >
+                            {secret.description.length > 100
+                              ? `${secret.description.substring(0, 100)}...`
+                              : secret.description}
+                          </Typography>
+                        )
+                      )}
+
+                      {/* Status */}
                       <Chip
+                        label={getStatusText(secret)}
+                        color={getStatusColor(secret)}
                         size="small"
-                        icon={<Timer />}
-                        label="No expiry"
-                        variant="outlined"
-                        color="success"
+                        sx={{ mb: 2 }}
                       />
-                    )}
-                  </Box>
 
-                  <Divider sx={{ my: 2 }} />
+                      {/* Metadata */}
+                      <Box
+                        sx={{
+                          display: "flex",
+                          flexWrap: "wrap",
+                          gap: 1,
+                          mb: 2,
+                        }}
+                      >
+                        {secret.folderId &&
+                          folderNames.has(secret.folderId) && (
+                            <Chip
+                              size="small"
+                              icon={<Folder />}
+                              label={folderNames.get(secret.folderId)}
+                              variant="outlined"
+                              onClick={() => setFolderFilter(secret.folderId!)}
+                            />
+                          )}
+                        {secret.tags.map((tag) => (
+                          <Chip
+                            key={tag}
+                            size="small"
+                            icon={<LocalOffer />}
+                            label={tag}
+                            variant="outlined"
+                            onClick={() => setTagFilter(tag)}
+                          />
+                        ))}
+                        {secret.hasPassword && (
+                          <Chip
+                            size="small"
+                            icon={<Lock />}
+                            label="Password"
+                            variant="outlined"
+                          />
+                        )}
+                        {secret.deleteAfterView && (
+                          <Chip
+                            size="small"
+                            icon={<Visibility />}
+                            label="One-time"
+                            variant="outlined"
+                          />
+                        )}
+                        {secret.expiresAt ? (
+                          <Chip
+                            size="small"
+                            icon={<Timer />}
+                            label={new Date(
+                              secret.expiresAt
+                            ).toLocaleDateString()}
+                            variant="outlined"
+                          />
+                        ) : (
+                          <Chip
+                            size="small"
+                            icon={<Timer />}
+                            label="No expiry"
+                            variant="outlined"
+                            color="success"
+                          />
+                        )}
+                      </Box>
 
-                  {/* Stats */}
-                  <Box
-                    sx={{
-                      display: "flex",
-                      justifyContent: "space-between",
-                      color: "text.secondary",
-                    }}
-                  >
-                    <Typography variant="caption">
-                      Views: {secret.currentViews}
-                      {secret.maxViews && `/${secret.maxViews}`}
-                    </Typography>
-                    <Typography variant="caption">
-                      Created: {new Date(secret.createdAt).toLocaleDateString()}
-                    </Typography>
-                  </Box>
-                </CardContent>
-              </Card>
-            ))}
-          </Box>
+                      <Divider sx={{ my: 2 }} />
+
+                      {/* Stats */}
+                      <Box
+                        sx={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          color: "text.secondary",
+                        }}
+                      >
+                        <Typography variant="caption">
+                          Views: {secret.currentViews}
+                          {secret.maxViews && `/${secret.maxViews}`}
+                        </Typography>
+                        <Typography variant="caption">
+                          Created:{" "}
+                          {new Date(secret.createdAt).toLocaleDateString()}
+                        </Typography>
+                      </Box>
+                    </CardContent>
+                  </Card>
+                ))}
+              </Box>
+            )}
+
+            {/* Infinite scroll */}
+            <Box
+              ref={loadMoreRef}
+              sx={{ display: "flex", justifyContent: "center", py: 3 }}
+            >
+              {isFetchingNextPage && <CircularProgress size={24} />}
+            </Box>
+          </>
         )}
 
         {/* Context Menu */}
@@ -429,19 +789,57 @@ export default function DashboardPage() {
           open={Boolean(anchorEl)}
           onClose={handleMenuClose}
         >
-          <MenuItem onClick={() => handleCopyUrl(selectedSecret!)}>
+          <MenuItem
+            onClick={() => handleCopyUrl(selectedSlug!)}
+            disabled={!selectedSlug}
+          >
             <ContentCopy sx={{ mr: 1 }} fontSize="small" />
             Copy URL
           </MenuItem>
           <MenuItem
-            onClick={() => window.open(`/secret/${selectedSecret}`, "_blank")}
+            onClick={() => window.open(`/secret/${selectedSlug}`, "_blank")}
+            disabled={!selectedSlug}
           >
             <Visibility sx={{ mr: 1 }} fontSize="small" />
             View Secret
           </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setSharingSecretId(selectedSecret);
+              handleMenuClose();
+            }}
+          >
+            <Share sx={{ mr: 1 }} fontSize="small" />
+            Manage Sharing
+          </MenuItem>
+          <MenuItem
+            onClick={() => {
+              setOrganizingId(selectedSecret);
+              handleMenuClose();
+            }}
+          >
+            <Folder sx={{ mr: 1 }} fontSize="small" />
+            Folder &amp; Tags
+          </MenuItem>
+          <MenuItem
+            onClick={() => rotateSlugMutation.mutate({ id: selectedSecret! })}
+            disabled={rotateSlugMutation.isPending}
+          >
+            <Autorenew sx={{ mr: 1 }} fontSize="small" />
+            {selectedSlug ? "New Link" : "Enable Link"}
+          </MenuItem>
+          {selectedSlug && (
+            <MenuItem
+              onClick={() => revokeSlugMutation.mutate({ id: selectedSecret! })}
+              disabled={revokeSlugMutation.isPending}
+            >
+              <LinkOff sx={{ mr: 1 }} fontSize="small" />
+              Disable Link
+            </MenuItem>
+          )}
           <MenuItem
             component={Link}
-            href={`/secret/${selectedSecret}/edit`}
+            href={`/dashboard/${selectedSecret}/edit`}
             onClick={handleMenuClose}
           >
             <Edit sx={{ mr: 1 }} fontSize="small" />
@@ -452,6 +850,47 @@ export default function DashboardPage() {
             Delete
           </MenuItem>
         </Menu>
+
+        {/* Share Panel */}
+        <Dialog
+          open={!!sharingSecret}
+          onClose={() => setSharingSecretId(null)}
+          maxWidth="md"
+          fullWidth
+        >
+          <DialogTitle>Sharing: {sharingSecret?.title}</DialogTitle>
+          <DialogContent>
+            {sharingSecret?.iv && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                This secret was encrypted in your browser. Links copied here
+                don&apos;t include the key, so add the part after # from the
+                original link.
+              </Alert>
+            )}
+            {sharingSecret && (
+              <RecipientLinks
+                secretId={sharingSecret.id}
+                slug={sharingSecret.slug}
+                shareKey={null}
+              />
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSharingSecretId(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+
+        <FolderManagerDialog
+          open={foldersOpen}
+          onClose={() => setFoldersOpen(false)}
+        />
+
+        <OrganizeSecretDialog
+          open={!!organizingSecret}
+          onClose={() => setOrganizingId(null)}
+          secret={organizingSecret}
+          onSaved={refreshSecrets}
+        />
       </Box>
     </Container>
   );
@@ -0,0 +1,735 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import {
+  Container,
+  Typography,
+  Paper,
+  Box,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+  Card,
+  CardContent,
+  Chip,
+  IconButton,
+  InputAdornment,
+  Visibility,
+  VisibilityOff,
+  ContentCopy,
+  Security,
+  Warning,
+  CheckCircle,
+  Timer,
+  Lock,
+  Error,
+  Download,
+  Divider,
+  Edit,
+} from "@/lib/mui-components";
+import Link from "next/link";
+import { trpc } from "@/components/providers/trpc-provider";
+import AuthModal from "@/components/auth/auth-modal";
+import RecipientVerification from "@/components/auth/recipient-verification";
+import ActivationCountdown from "@/components/secret/activation-countdown";
+import { decryptContent, getKeyFromFragment } from "@/lib/client-crypto";
+import { formatFileSize } from "@/lib/utils";
+
+export default function ViewSecretPage() {
+  const params = useParams();
+  const slug = params.slug as string;
+  // Set when the viewer opened a recipient's own share link
+  const linkToken = useSearchParams().get("link") ?? undefined;
+
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  // Content and IV as revealed; the IV may have changed since the preview
+  const [secretContent, setSecretContent] = useState<{
+    content: string;
+    iv: string | null;
+  } | null>(null);
+  const [passwordError, setPasswordError] = useState("");
+  const [copySuccess, setCopySuccess] = useState(false);
+  const [decryptedContent, setDecryptedContent] = useState<string | null>(null);
+  const [decryptionError, setDecryptionError] = useState("");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+  // Proves an emailed recipient without an account verified their address
+  const [recipientToken, setRecipientToken] = useState<string | undefined>();
+  // Set once the countdown to a scheduled secret's activation runs out
+  const [isActivated, setIsActivated] = useState(false);
+
+  // Get secret metadata first. Stop refetching once revealed, since a
+  // one-time secret is no longer available after it has been read.
+  const {
+    data: secret,
+    isLoading,
+    error,
+    refetch,
+  } = trpc.secret.preview.useQuery(
+    { slug, recipientToken, linkToken },
+    { enabled: !!slug && !isUnlocked }
+  );
+
+  // Consumes a view on the server and releases the content
+  const revealMutation = trpc.secret.reveal.useMutation();
+
+  const isFileSecret = !!secret && secret.contentType !== "TEXT";
+  const isRevealing = revealMutation.isPending || isDownloading;
+
+  // Recipients with VIEW permission may only preview files in the browser
+  const isPreviewOnly = isFileSecret && secret.permission === "VIEW";
+  const fileActionLabel = isPreviewOnly ? "Preview File" : "Download File";
+
+  // Release the preview's object URL when it is replaced or the page closes
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  // Decrypt client-side encrypted content using the key from the URL fragment
+  useEffect(() => {
+    if (!secret || !secretContent) return;
+
+    if (!secretContent.iv) {
+      setDecryptedContent(secretContent.content);
+      return;
+    }
+
+    const key = getKeyFromFragment();
+    if (!key) {
+      setDecryptionError(
+        "This link is missing its decryption key. Ask the sender for the full link."
+      );
+      return;
+    }
+
+    decryptContent(secretContent.content, secretContent.iv, key)
+      .then((plaintext) => {
+        setDecryptedContent(plaintext);
+        setDecryptionError("");
+      })
+      .catch((err) => {
+        console.error("Failed to decrypt content:", err);
+        setDecryptionError(
+          "The decryption key in this link is invalid. Ask the sender for the full link."
+        );
+      });
+  }, [secret, secretContent]);
+
+  // File secrets are fetched from the download route, which checks the
+  // viewer's permission and counts the view
+  const handleDownload = async () => {
+    if (!secret) return;
+    setIsDownloading(true);
+
+    try {
+      const token = localStorage.getItem("auth-token");
+      const query = isPreviewOnly ? "?disposition=inline" : "";
+      const response = await fetch(`/api/secret/${slug}/download${query}`, {
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(recipientToken ? { "X-Recipient-Token": recipientToken } : {}),
+          ...(linkToken ? { "X-Link-Token": linkToken } : {}),
+          ...(secret.hasPassword ? { "X-Secret-Password": password } : {}),
+        },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        setPasswordError(error || "Download failed");
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+
+      if (isPreviewOnly) {
+        setPreviewUrl(url);
+      } else {
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = secret.fileName || "download";
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+
+      setIsUnlocked(true);
+    } catch (err) {
+      console.error("Failed to download file:", err);
+      setPasswordError("Download failed. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleReveal = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setPasswordError("");
+
+    if (!secret) return;
+
+    if (isFileSecret) {
+      handleDownload();
+      return;
+    }
+
+    // The server checks the password, counts the view and logs the access
+    revealMutation.mutate(
+      {
+        slug,
+        password: secret.hasPassword ? password : undefined,
+        recipientToken,
+        linkToken,
+      },
+      {
+        onSuccess: (revealed) => {
+          setSecretContent(revealed);
+          setIsUnlocked(true);
+        },
+        onError: (error: { message: string }) => {
+          setPasswordError(error.message);
+        },
+      }
+    );
+  };
+
+  const handleCopyContent = async () => {
+    if (decryptedContent) {
+      try {
+        await navigator.clipboard.writeText(decryptedContent);
+        setCopySuccess(true);
+        setTimeout(() => setCopySuccess(false), 2000);
+      } catch (err) {
+        console.error("Failed to copy content:", err);
+      }
+    }
+  };
+
+  const isExpired =
+    secret?.expiresAt && new Date() > new Date(secret.expiresAt);
+  const isMaxViewsReached =
+    secret?.maxViews && secret.currentViews >= secret.maxViews;
+  const isScheduled =
+    !isActivated &&
+    !!secret?.activatesAt &&
+    new Date() < new Date(secret.activatesAt);
+  const isPasswordProtected = secret?.hasPassword;
+  const needsPassword = isPasswordProtected && !isUnlocked;
+  const needsReveal = !isPasswordProtected && !isUnlocked;
+
+  if (isLoading) {
+    return (
+      <Container maxWidth="md">
+        <Box
+          sx={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "center",
+            alignItems: "center",
+            minHeight: "60vh",
+            textAlign: "center",
+          }}
+        >
+          <Security sx={{ fontSize: 64, color: "primary.main", mb: 2 }} />
+          <CircularProgress sx={{ mb: 2 }} />
+          <Typography variant="h6" color="text.secondary">
+            Loading secure content...
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  // Secrets that are not public are limited to the owner and recipients
+  const accessError =
+    error?.data?.code === "UNAUTHORIZED" || error?.data?.code === "FORBIDDEN"
+      ? error.data.code
+      : null;
+
+  if (accessError) {
+    return (
+      <>
+        <Container maxWidth="md">
+          <Box sx={{ py: 8, textAlign: "center" }}>
+            <Lock sx={{ fontSize: 64, color: "warning.main", mb: 2 }} />
+            <Typography variant="h4" gutterBottom>
+              Access Restricted
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+              {accessError === "UNAUTHORIZED"
+                ? "This secret was shared with specific people. Sign in or verify your email to check whether you have access."
+                : "You don't have access to this secret. Ask the sender to share it with your account."}
+            </Typography>
+            {accessError === "UNAUTHORIZED" && (
+              <Box sx={{ maxWidth: 400, mx: "auto" }}>
+                <Button
+                  variant="contained"
+                  size="large"
+                  fullWidth
+                  onClick={() => setAuthModalOpen(true)}
+                >
+                  Sign In
+                </Button>
+                <Divider sx={{ my: 3 }}>or</Divider>
+                <RecipientVerification
+                  slug={slug}
+                  onVerified={setRecipientToken}
+                />
+              </Box>
+            )}
+          </Box>
+        </Container>
+        <AuthModal
+          open={authModalOpen}
+          onClose={() => {
+            setAuthModalOpen(false);
+            refetch();
+          }}
+        />
+      </>
+    );
+  }
+
+  if (error || !secret) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: 8, textAlign: "center" }}>
+          <Error sx={{ fontSize: 64, color: "error.main", mb: 2 }} />
+          <Typography variant="h4" gutterBottom>
+            Secret Not Found
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+            This secret doesn&apos;t exist or has been deleted.
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!secret.isActive) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: 8, textAlign: "center" }}>
+          <Warning sx={{ fontSize: 64, color: "warning.main", mb: 2 }} />
+          <Typography variant="h4" gutterBottom>
+            Secret Unavailable
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+            This secret has been deactivated or deleted.
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  if (isExpired) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: 8, textAlign: "center" }}>
+          <Timer sx={{ fontSize: 64, color: "error.main", mb: 2 }} />
+          <Typography variant="h4" gutterBottom>
+            Secret Expired
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 2 }}>
+            This secret has expired and is no longer available.
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 4 }}>
+            Expired on: {new Date(secret.expiresAt!).toLocaleString()}
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  if (isMaxViewsReached) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: 8, textAlign: "center" }}>
+          <Visibility sx={{ fontSize: 64, color: "error.main", mb: 2 }} />
+          <Typography variant="h4" gutterBottom>
+            View Limit Reached
+          </Typography>
+          <Typography variant="body1" color="text.secondary" sx={{ mb: 4 }}>
+            This secret has reached its maximum number of views and is no longer
+            available.
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  if (isScheduled) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: 8, textAlign: "center" }}>
+          <Timer sx={{ fontSize: 64, color: "info.main", mb: 2 }} />
+          <Typography variant="h4" gutterBottom>
+            {secret.title}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            This secret becomes available in
+          </Typography>
+          <ActivationCountdown
+            activatesAt={secret.activatesAt!}
+            onActivated={() => setIsActivated(true)}
+          />
+          <Typography variant="body2" color="text.secondary">
+            {new Date(secret.activatesAt!).toLocaleString()}
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md">
+      <Box sx={{ py: 4 }}>
+        {/* Minimal SecureShare Branding */}
+        <Box sx={{ textAlign: "center", mb: 4 }}>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              gap: 1,
+              mb: 1,
+            }}
+          >
+            <Security color="primary" />
+            <Typography
+              variant="h5"
+              color="primary"
+              sx={{ fontWeight: "bold" }}
+            >
+              SecureShare
+            </Typography>
+          </Box>
+          <Typography variant="body2" color="text.secondary">
+            Secure Secret Sharing
+          </Typography>
+        </Box>
+
+        {/* Secret Info Header */}
+        <Paper sx={{ p: 4, mb: 4 }}>
+          <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2 }}>
+            <Security color="primary" />
+            <Typography variant="h4" component="h1">
+              {secret.title}
+            </Typography>
+          </Box>
+
+          {secret.description && (
+            <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+              {secret.description}
+            </Typography>
+          )}
+
+          {/* Security Status Chips */}
+          <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 3 }}>
+            {secret.expiresAt ? (
+              <Chip
+                size="small"
+                icon={<Timer />}
+                label={`Expires: ${new Date(
+                  secret.expiresAt
+                ).toLocaleString()}`}
+                color="warning"
+                variant="outlined"
+              />
+            ) : (
+              <Chip
+                size="small"
+                icon={<Timer />}
+                label="No expiry"
+                color="success"
+                variant="outlined"
+              />
+            )}
+            {secret.hasPassword && (
+              <Chip
+                size="small"
+                icon={<Lock />}
+                label="Password Protected"
+                color="success"
+                variant="outlined"
+              />
+            )}
+            {secret.deleteAfterView && (
+              <Chip
+                size="small"
+                icon={<Visibility />}
+                label="One-time Access"
+                color="error"
+                variant="outlined"
+              />
+            )}
+            {secret.maxViews && (
+              <Chip
+                size="small"
+                label={`Views: ${secret.currentViews}/${secret.maxViews}`}
+                color="info"
+                variant="outlined"
+              />
+            )}
+          </Box>
+
+          {/* Recipients shared with EDIT can change the content. The key
+              goes along so encrypted content stays readable there. */}
+          {secret.permission === "EDIT" && (
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<Edit />}
+              component={Link}
+              href={`/dashboard/${secret.id}/edit${window.location.hash}`}
+              sx={{ mb: 3 }}
+            >
+              Edit Secret
+            </Button>
+          )}
+
+          {/* Warnings */}
+          {secret.deleteAfterView && !isUnlocked && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              <strong>One-time access:</strong> This secret will be permanently
+              deleted after viewing.
+            </Alert>
+          )}
+        </Paper>
+
+        {/* Password Form or Secret Content */}
+        {needsPassword ? (
+          <Paper sx={{ p: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              Enter Password
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              This secret is password protected. Enter the password to view its
+              contents.
+            </Typography>
+
+            <form onSubmit={handleReveal}>
+              <TextField
+                fullWidth
+                type={showPassword ? "text" : "password"}
+                label="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                error={!!passwordError}
+                helperText={passwordError}
+                sx={{ mb: 3 }}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton
+                        onClick={() => setShowPassword(!showPassword)}
+                        edge="end"
+                      >
+                        {showPassword ? <VisibilityOff /> : <Visibility />}
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+              />
+
+              <Button
+                type="submit"
+                variant="contained"
+                size="large"
+                disabled={!password.trim() || isRevealing}
+                startIcon={<Lock />}
+                fullWidth
+              >
+                {isRevealing
+                  ? "Verifying..."
+                  : isFileSecret
+                    ? fileActionLabel
+                    : "View Secret"}
+              </Button>
+            </form>
+          </Paper>
+        ) : needsReveal ? (
+          <Paper sx={{ p: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              Ready to View
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              {isFileSecret
+                ? `${isPreviewOnly ? "Previewing" : "Downloading"} ${
+                    secret.fileName ?? "this file"
+                  }${
+                    secret.fileSize
+                      ? ` (${formatFileSize(secret.fileSize)})`
+                      : ""
+                  } counts towards its view limit.`
+                : "Viewing this secret counts towards its view limit. Only reveal it when you are ready to save the content."}
+            </Typography>
+
+            {passwordError && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {passwordError}
+              </Alert>
+            )}
+
+            <Button
+              variant="contained"
+              size="large"
+              onClick={() => handleReveal()}
+              disabled={isRevealing}
+              startIcon={
+                isFileSecret && !isPreviewOnly ? <Download /> : <Visibility />
+              }
+              fullWidth
+            >
+              {isRevealing
+                ? "Revealing..."
+                : isFileSecret
+                  ? fileActionLabel
+                  : "Reveal Secret"}
+            </Button>
+          </Paper>
+        ) : isFileSecret && previewUrl ? (
+          <Paper sx={{ p: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {secret.fileName ?? "File Preview"}
+            </Typography>
+
+            {secret.mimeType?.startsWith("image/") ? (
+              <Box
+                component="img"
+                src={previewUrl}
+                alt={secret.fileName ?? "Preview"}
+                sx={{ maxWidth: "100%", display: "block", mb: 3 }}
+              />
+            ) : (
+              <Box
+                component="iframe"
+                src={previewUrl}
+                title={secret.fileName ?? "Preview"}
+                sx={{
+                  width: "100%",
+                  height: 600,
+                  border: "1px solid",
+                  borderColor: "divider",
+                  mb: 3,
+                }}
+              />
+            )}
+
+            <Alert severity="info">
+              This file was shared with you for viewing only and can&apos;t be
+              downloaded.
+            </Alert>
+          </Paper>
+        ) : isFileSecret ? (
+          <Paper sx={{ p: 4 }}>
+            <Alert
+              severity="success"
+              sx={{ mb: secret.deleteAfterView ? 3 : 0 }}
+            >
+              <CheckCircle sx={{ mr: 1 }} />
+              {secret.fileName ?? "The file"} has been downloaded.
+            </Alert>
+
+            {secret.deleteAfterView && (
+              <Alert severity="error">
+                <strong>Important:</strong> This was a one-time secret and has
+                now been permanently deleted. Keep the downloaded file safe.
+              </Alert>
+            )}
+          </Paper>
+        ) : (
+          <Paper sx={{ p: 4 }}>
+            {/* Success indicator if just unlocked */}
+            {isUnlocked && (
+              <Alert severity="success" sx={{ mb: 3 }}>
+                <CheckCircle sx={{ mr: 1 }} />
+                Access granted! The secret content is displayed below.
+              </Alert>
+            )}
+
+            {decryptionError && (
+              <Alert severity="error" sx={{ mb: 3 }}>
+                {decryptionError}
+              </Alert>
+            )}
+
+            {/* Copy success feedback */}
+            {copySuccess && (
+              <Alert severity="info" sx={{ mb: 3 }}>
+                Content copied to clipboard!
+              </Alert>
+            )}
+
+            <Typography variant="h6" gutterBottom>
+              Secret Content
+            </Typography>
+
+            <Card sx={{ bgcolor: "grey.50", mb: 3 }}>
+              <CardContent>
+                <Box
+                  sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "flex-start",
+                    mb: 2,
+                  }}
+                >
+                  <Typography variant="body2" color="text.secondary">
+                    Content:
+                  </Typography>
+                  <Button
+                    size="small"
+                    onClick={handleCopyContent}
+                    startIcon={<ContentCopy />}
+                    variant="outlined"
+                    disabled={!decryptedContent}
+                  >
+                    Copy
+                  </Button>
+                </Box>
+
+                <Typography
+                  variant="body1"
+                  component="pre"
+                  sx={{
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                    fontFamily: "monospace",
+                    backgroundColor: "white",
+                    p: 2,
+                    borderRadius: 1,
+                    border: "1px solid",
+                    borderColor: "divider",
+                  }}
+                >
+                  {decryptedContent ?? (decryptionError ? "" : "Decrypting...")}
+                </Typography>
+              </CardContent>
+            </Card>
+
+            {secret.deleteAfterView && (
+              <Alert severity="error">
+                <strong>Important:</strong> This was a one-time secret and has
+                now been permanently deleted. Save the content if you need it
+                later.
+              </Alert>
+            )}
+          </Paper>
+        )}
+
+        {/* Minimal footer */}
+        <Box sx={{ textAlign: "center", mt: 4, py: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Powered by SecureShare - Secure secret sharing platform
+          </Typography>
+        </Box>
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  InputAdornment,
+  CircularProgress,
+  Email,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { type RecipientVerificationProps } from "@/lib/types";
+
+export default function RecipientVerification({
+  slug,
+  onVerified,
+}: RecipientVerificationProps) {
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const requestCodeMutation = trpc.secret.requestRecipientCode.useMutation({
+    onSuccess: (data) => {
+      setSuccess(data.message);
+      setCodeSent(true);
+      setError("");
+    },
+    onError: (error) => {
+      setError(error.message);
+      setSuccess("");
+    },
+  });
+
+  const verifyMutation = trpc.secret.verifyRecipient.useMutation({
+    onSuccess: (data) => {
+      onVerified(data.recipientToken);
+    },
+    onError: (error) => {
+      setError(error.message);
+      setSuccess("");
+    },
+  });
+
+  const isLoading = requestCodeMutation.isPending || verifyMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (codeSent) {
+      verifyMutation.mutate({ slug, email: email.trim(), code });
+    } else {
+      requestCodeMutation.mutate({ slug, email: email.trim() });
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ textAlign: "left" }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Don&apos;t have an account? Enter the email address this secret was
+        shared with and we&apos;ll send you a 6-digit code.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          {success}
+        </Alert>
+      )}
+
+      <TextField
+        fullWidth
+        label="Email Address"
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        margin="normal"
+        required
+        disabled={codeSent}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Email />
+            </InputAdornment>
+          ),
+        }}
+      />
+
+      {codeSent && (
+        <TextField
+          fullWidth
+          label="Verification Code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          margin="normal"
+          required
+          inputProps={{ maxLength: 6 }}
+          placeholder="123456"
+        />
+      )}
+
+      <Button
+        type="submit"
+        fullWidth
+        variant="outlined"
+        size="large"
+        disabled={isLoading || !email.trim() || (codeSent && code.length !== 6)}
+        sx={{ mt: 2 }}
+      >
+        {isLoading ? (
+          <CircularProgress size={24} />
+        ) : codeSent ? (
+          "Verify Code"
+        ) : (
+          "Send Code"
+        )}
+      </Button>
+
+      {codeSent && (
+        <Box sx={{ textAlign: "center", mt: 1 }}>
+          <Button
+            onClick={() => {
+              setCodeSent(false);
+              setCode("");
+              setSuccess("");
+            }}
+            variant="text"
+            size="small"
+          >
+            Use a different email
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
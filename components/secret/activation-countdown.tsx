@@ -0,0 +1,41 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Typography } from "@/lib/mui-components";
+import { formatCountdown } from "@/lib/utils";
+import { type ActivationCountdownProps } from "@/lib/types";
+
+export default function ActivationCountdown({
+  activatesAt,
+  onActivated,
+}: ActivationCountdownProps) {
+  const [remaining, setRemaining] = useState(
+    () => new Date(activatesAt).getTime() - Date.now()
+  );
+
+  useEffect(() => {
+    const target = new Date(activatesAt).getTime();
+
+    const timer = setInterval(() => {
+      const left = target - Date.now();
+      setRemaining(left);
+
+      if (left <= 0) {
+        clearInterval(timer);
+        onActivated();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [activatesAt, onActivated]);
+
+  return (
+    <Typography
+      variant="h3"
+      component="p"
+      sx={{ fontVariantNumeric: "tabular-nums", my: 2 }}
+    >
+      {formatCountdown(remaining)}
+    </Typography>
+  );
+}
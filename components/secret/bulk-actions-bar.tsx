@@ -0,0 +1,329 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  Paper,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Delete,
+  Timer,
+  Schedule,
+  Share,
+  Folder,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { flattenFolderTree } from "@/lib/utils";
+import { EXPIRATION_OPTIONS } from "@/lib/constants";
+import { type BulkActionsBarProps, type BulkItemResult } from "@/lib/types";
+
+type BulkAction = "delete" | "expire" | "extend" | "share" | "move";
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  delete: "Delete secrets",
+  expire: "Expire secrets now",
+  extend: "Extend expiry",
+  share: "Share secrets",
+  move: "Move to folder",
+};
+
+// Select value standing for "not in a folder"
+const NO_FOLDER = "";
+
+export default function BulkActionsBar({
+  selectedIds,
+  onSelectAll,
+  onClear,
+  onDone,
+}: BulkActionsBarProps) {
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [extendBy, setExtendBy] = useState(0); // Index in EXPIRATION_OPTIONS
+  const [emails, setEmails] = useState("");
+  const [permission, setPermission] = useState<"VIEW" | "DOWNLOAD" | "EDIT">(
+    "VIEW"
+  );
+  const [folderId, setFolderId] = useState(NO_FOLDER);
+  const [results, setResults] = useState<BulkItemResult[] | null>(null);
+  const [error, setError] = useState("");
+
+  const { data: folders } = trpc.folder.list.useQuery(undefined, {
+    enabled: action === "move",
+  });
+  const tree = flattenFolderTree(folders ?? []);
+
+  const handlers = {
+    onSuccess: (results: BulkItemResult[]) => {
+      setResults(results);
+      setAction(null);
+      onDone(results);
+    },
+    onError: (error: { message: string }) => {
+      setError(error.message);
+    },
+  };
+
+  const deleteMutation = trpc.secret.bulkDelete.useMutation(handlers);
+  const expireMutation = trpc.secret.bulkExpire.useMutation(handlers);
+  const extendMutation = trpc.secret.bulkExtend.useMutation(handlers);
+  const shareMutation = trpc.secret.bulkShare.useMutation(handlers);
+  const moveMutation = trpc.folder.moveSecrets.useMutation(handlers);
+
+  const isPending =
+    deleteMutation.isPending ||
+    expireMutation.isPending ||
+    extendMutation.isPending ||
+    shareMutation.isPending ||
+    moveMutation.isPending;
+
+  const emailList = emails
+    .split(/[\s,]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+  const openAction = (next: BulkAction) => {
+    setError("");
+    setResults(null);
+    setAction(next);
+  };
+
+  const handleConfirm = () => {
+    const ids = selectedIds;
+
+    switch (action) {
+      case "delete":
+        deleteMutation.mutate({ ids });
+        break;
+      case "expire":
+        expireMutation.mutate({ ids });
+        break;
+      case "extend": {
+        const { value, unit } = EXPIRATION_OPTIONS[extendBy];
+        extendMutation.mutate({ ids, by: { value, unit } });
+        break;
+      }
+      case "share":
+        shareMutation.mutate({ ids, emails: emailList, permission });
+        break;
+      case "move":
+        moveMutation.mutate({ secretIds: ids, folderId: folderId || null });
+        break;
+    }
+  };
+
+  const failed = results?.filter((result) => !result.success) ?? [];
+  const succeeded = (results?.length ?? 0) - failed.length;
+
+  return (
+    <>
+      {results && (
+        <Alert
+          severity={failed.length === 0 ? "success" : "warning"}
+          onClose={() => setResults(null)}
+          sx={{ mb: 2 }}
+        >
+          {succeeded} of {results.length} secrets updated.
+          {failed.length > 0 && (
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {failed.map((result) => (
+                <li key={result.id}>
+                  {result.id}: {result.error}
+                </li>
+              ))}
+            </Box>
+          )}
+        </Alert>
+      )}
+
+      {selectedIds.length > 0 && (
+        <Paper
+          sx={{
+            p: 2,
+            mb: 3,
+            display: "flex",
+            alignItems: "center",
+            gap: 1,
+            flexWrap: "wrap",
+          }}
+        >
+          <Typography variant="body2" sx={{ mr: 1 }}>
+            {selectedIds.length} selected
+          </Typography>
+          <Button size="small" onClick={onSelectAll}>
+            Select All
+          </Button>
+          <Button size="small" onClick={onClear}>
+            Clear
+          </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button
+            size="small"
+            startIcon={<Folder />}
+            onClick={() => openAction("move")}
+          >
+            Move
+          </Button>
+          <Button
+            size="small"
+            startIcon={<Share />}
+            onClick={() => openAction("share")}
+          >
+            Share
+          </Button>
+          <Button
+            size="small"
+            startIcon={<Schedule />}
+            onClick={() => openAction("extend")}
+          >
+            Extend
+          </Button>
+          <Button
+            size="small"
+            color="warning"
+            startIcon={<Timer />}
+            onClick={() => openAction("expire")}
+          >
+            Expire Now
+          </Button>
+          <Button
+            size="small"
+            color="error"
+            startIcon={<Delete />}
+            onClick={() => openAction("delete")}
+          >
+            Delete
+          </Button>
+        </Paper>
+      )}
+
+      <Dialog
+        open={action !== null}
+        onClose={() => setAction(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {action === "delete" && (
+            <Typography>
+              Move {selectedIds.length} secrets to the trash? Their links stop
+              working right away.
+            </Typography>
+          )}
+
+          {action === "expire" && (
+            <Typography>
+              Expire {selectedIds.length} secrets now? Their links stop working
+              right away and the secrets are burned shortly after. This
+              can&apos;t be undone.
+            </Typography>
+          )}
+
+          {action === "extend" && (
+            <Box sx={{ pt: 1 }}>
+              <FormControl fullWidth>
+                <InputLabel>Extend by</InputLabel>
+                <Select
+                  value={extendBy}
+                  label="Extend by"
+                  onChange={(e) => setExtendBy(Number(e.target.value))}
+                >
+                  {EXPIRATION_OPTIONS.map((option, index) => (
+                    <MenuItem key={option.label} value={index}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Expired secrets are extended from now. Secrets that never expire
+                are skipped.
+              </Typography>
+            </Box>
+          )}
+
+          {action === "share" && (
+            <Box
+              sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}
+            >
+              <TextField
+                label="Emails"
+                value={emails}
+                onChange={(e) => setEmails(e.target.value)}
+                helperText="Separate addresses with commas"
+                multiline
+                fullWidth
+              />
+              <FormControl fullWidth>
+                <InputLabel>Permission</InputLabel>
+                <Select
+                  value={permission}
+                  label="Permission"
+                  onChange={(e) =>
+                    setPermission(
+                      e.target.value as "VIEW" | "DOWNLOAD" | "EDIT"
+                    )
+                  }
+                >
+                  <MenuItem value="VIEW">View</MenuItem>
+                  <MenuItem value="DOWNLOAD">Download</MenuItem>
+                  <MenuItem value="EDIT">Edit</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+
+          {action === "move" && (
+            <Box sx={{ pt: 1 }}>
+              <FormControl fullWidth>
+                <InputLabel>Folder</InputLabel>
+                <Select
+                  value={folderId}
+                  label="Folder"
+                  onChange={(e) => setFolderId(e.target.value)}
+                >
+                  <MenuItem value={NO_FOLDER}>No folder</MenuItem>
+                  {tree.map((folder) => (
+                    <MenuItem key={folder.id} value={folder.id}>
+                      <Box sx={{ pl: folder.depth * 2 }}>{folder.name}</Box>
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAction(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color={
+              action === "delete" || action === "expire" ? "error" : "primary"
+            }
+            onClick={handleConfirm}
+            disabled={
+              isPending || (action === "share" && emailList.length === 0)
+            }
+          >
+            {isPending ? "Working..." : "Confirm"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
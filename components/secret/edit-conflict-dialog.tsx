@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Warning,
+} from "@/lib/mui-components";
+import { diffLines } from "@/lib/utils";
+import { type EditConflictDialogProps } from "@/lib/types";
+
+const DIFF_STYLES = {
+  same: { prefix: " ", bgcolor: "transparent" },
+  added: { prefix: "+", bgcolor: "success.light" },
+  removed: { prefix: "-", bgcolor: "error.light" },
+} as const;
+
+export default function EditConflictDialog({
+  open,
+  onClose,
+  mine,
+  latest,
+  onReload,
+}: EditConflictDialogProps) {
+  const [showDiff, setShowDiff] = useState(false);
+
+  const renderDiff = () => {
+    if (!latest) {
+      return (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      );
+    }
+
+    return (
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Title
+        </Typography>
+        {latest.title === mine.title ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Unchanged
+          </Typography>
+        ) : (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="body2">Current: {latest.title}</Typography>
+            <Typography variant="body2">Yours: {mine.title}</Typography>
+          </Box>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Content
+        </Typography>
+        {latest.content === null || mine.content === null ? (
+          <Typography variant="body2" color="text.secondary">
+            The content can&apos;t be compared in this browser.
+          </Typography>
+        ) : latest.content === mine.content ? (
+          <Typography variant="body2" color="text.secondary">
+            Unchanged
+          </Typography>
+        ) : (
+          <Box
+            component="pre"
+            sx={{
+              m: 0,
+              p: 1,
+              maxHeight: 300,
+              overflow: "auto",
+              fontFamily: "monospace",
+              fontSize: "0.8rem",
+              border: "1px solid",
+              borderColor: "divider",
+              borderRadius: 1,
+            }}
+          >
+            {diffLines(latest.content, mine.content).map((line, index) => (
+              <Box key={index} sx={{ bgcolor: DIFF_STYLES[line.type].bgcolor }}>
+                {DIFF_STYLES[line.type].prefix} {line.text}
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Warning color="warning" />
+        This secret has changed
+      </DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Someone saved this secret after you opened it, so your changes were
+          not saved. Reload to continue from the current version. Reloading
+          discards your changes, so copy anything you want to keep first.
+        </Alert>
+
+        {showDiff ? (
+          <>
+            <Typography variant="caption" color="text.secondary">
+              Lines marked - are in the current version, lines marked + are
+              yours.
+            </Typography>
+            {renderDiff()}
+          </>
+        ) : (
+          <Button variant="text" onClick={() => setShowDiff(true)}>
+            Compare with the current version
+          </Button>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Keep Editing</Button>
+        <Button variant="contained" onClick={onReload}>
+          Reload
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
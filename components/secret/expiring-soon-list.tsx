@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Typography,
+  Alert,
+  Chip,
+  Paper,
+  Divider,
+  Autorenew,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { addDuration } from "@/lib/utils";
+import { MAX_VIEWS_LIMITS, RENEWAL_LIMITS } from "@/lib/constants";
+import { type ExpiringSoonListProps } from "@/lib/types";
+
+interface RenewableSecret {
+  expiresAt: Date | null;
+  maxViews: number | null;
+  currentViews: number;
+  latestExpiry: Date;
+}
+
+function isUsedUp(secret: RenewableSecret) {
+  return !!secret.maxViews && secret.currentViews >= secret.maxViews;
+}
+
+// What one-click renew changes: the expiry moves out by RENEW_DAYS (capped
+// at the latest expiry) and a used-up view limit gets its budget again.
+// Null when the secret can't be renewed any further.
+function renewalFor(secret: RenewableSecret, now: Date) {
+  const renewal: { expiresAt?: Date; maxViews?: number } = {};
+  const soon = addDuration(now, {
+    value: RENEWAL_LIMITS.EXPIRING_SOON_HOURS,
+    unit: "hours",
+  });
+
+  if (secret.expiresAt && secret.expiresAt <= soon) {
+    const from = secret.expiresAt > now ? secret.expiresAt : now;
+    const target = addDuration(from, {
+      value: RENEWAL_LIMITS.RENEW_DAYS,
+      unit: "days",
+    });
+    const expiresAt =
+      target > secret.latestExpiry ? secret.latestExpiry : target;
+
+    if (expiresAt <= from) return null;
+    renewal.expiresAt = expiresAt;
+  }
+
+  if (secret.maxViews && isUsedUp(secret)) {
+    renewal.maxViews =
+      secret.currentViews + Math.min(secret.maxViews, MAX_VIEWS_LIMITS.MAX);
+  }
+
+  return renewal;
+}
+
+function statusOf(secret: RenewableSecret, now: Date) {
+  if (secret.expiresAt && secret.expiresAt <= now) return "Expired";
+  if (isUsedUp(secret)) return "Views used up";
+  return `Expires ${secret.expiresAt!.toLocaleString()}`;
+}
+
+export default function ExpiringSoonList({ onRenewed }: ExpiringSoonListProps) {
+  const [error, setError] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: secrets } = trpc.secret.listExpiringSoon.useQuery();
+
+  const extendMutation = trpc.secret.extend.useMutation({
+    onSuccess: () => {
+      setError("");
+      onRenewed();
+      return utils.secret.listExpiringSoon.invalidate();
+    },
+    onError: (error) => {
+      setError(error.message);
+    },
+  });
+
+  if (!secrets?.length) return null;
+
+  const now = new Date();
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        Expiring soon
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Renew these secrets before they are deleted for good. Renewing adds{" "}
+        {RENEWAL_LIMITS.RENEW_DAYS} days, up to the longest a secret may live.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {secrets.map((secret, index) => {
+        const renewal = renewalFor(secret, now);
+
+        return (
+          <Box key={secret.id}>
+            {index > 0 && <Divider />}
+            <Box
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                gap: 2,
+                py: 1,
+                flexWrap: "wrap",
+              }}
+            >
+              <Typography variant="body1" sx={{ flexGrow: 1 }}>
+                {secret.title}
+              </Typography>
+              <Chip
+                size="small"
+                color={
+                  secret.expiresAt &&
+                  secret.expiresAt > now &&
+                  !isUsedUp(secret)
+                    ? "warning"
+                    : "error"
+                }
+                label={statusOf(secret, now)}
+              />
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={<Autorenew />}
+                onClick={() =>
+                  renewal &&
+                  extendMutation.mutate({ id: secret.id, ...renewal })
+                }
+                disabled={!renewal || extendMutation.isPending}
+                title={
+                  renewal
+                    ? undefined
+                    : "This secret has reached its maximum lifetime"
+                }
+              >
+                Renew
+              </Button>
+            </Box>
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  IconButton,
+  Tooltip,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Edit,
+  Delete,
+  Folder,
+  CreateNewFolder,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { flattenFolderTree } from "@/lib/utils";
+import { type FolderManagerDialogProps } from "@/lib/types";
+
+// Select value standing for "no parent folder"
+const TOP_LEVEL = "";
+
+export default function FolderManagerDialog({
+  open,
+  onClose,
+}: FolderManagerDialogProps) {
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(TOP_LEVEL);
+  const [error, setError] = useState("");
+  // Folder being renamed or moved
+  const [editing, setEditing] = useState<{
+    id: string;
+    name: string;
+    parentId: string;
+  } | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: folders, isLoading } = trpc.folder.list.useQuery(undefined, {
+    enabled: open,
+  });
+  const tree = flattenFolderTree(folders ?? []);
+
+  const refreshFolders = () => {
+    setError("");
+    return utils.folder.list.invalidate();
+  };
+
+  const onError = (error: { message: string }) => {
+    setError(error.message);
+  };
+
+  const createMutation = trpc.folder.create.useMutation({
+    onSuccess: () => {
+      setName("");
+      return refreshFolders();
+    },
+    onError,
+  });
+
+  const renameMutation = trpc.folder.rename.useMutation({ onError });
+  const moveMutation = trpc.folder.move.useMutation({ onError });
+
+  // Secrets in a deleted folder move to its parent, so refresh them too
+  const deleteMutation = trpc.folder.delete.useMutation({
+    onSuccess: () => {
+      utils.secret.search.invalidate();
+      return refreshFolders();
+    },
+    onError,
+  });
+
+  const isSaving = renameMutation.isPending || moveMutation.isPending;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ name, parentId: parentId || null });
+  };
+
+  const handleSave = async () => {
+    const folder = folders?.find((folder) => folder.id === editing?.id);
+    if (!editing || !folder) return;
+
+    try {
+      if (editing.name.trim() !== folder.name) {
+        await renameMutation.mutateAsync({
+          id: folder.id,
+          name: editing.name,
+        });
+      }
+      if ((editing.parentId || null) !== folder.parentId) {
+        await moveMutation.mutateAsync({
+          id: folder.id,
+          parentId: editing.parentId || null,
+        });
+      }
+      setEditing(null);
+    } catch {
+      // Shown by onError
+    } finally {
+      await refreshFolders();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Folders</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Folders are only visible to you. Deleting a folder moves its secrets
+          and subfolders up one level.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box
+          component="form"
+          onSubmit={handleCreate}
+          sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 3 }}
+        >
+          <TextField
+            label="New folder"
+            size="small"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            sx={{ flex: 2, minWidth: 180 }}
+            required
+          />
+          <FormControl size="small" sx={{ flex: 1, minWidth: 140 }}>
+            <InputLabel>Inside</InputLabel>
+            <Select
+              value={parentId}
+              label="Inside"
+              onChange={(e) => setParentId(e.target.value)}
+            >
+              <MenuItem value={TOP_LEVEL}>Top level</MenuItem>
+              {tree.map((folder) => (
+                <MenuItem key={folder.id} value={folder.id}>
+                  <Box sx={{ pl: folder.depth * 2 }}>{folder.name}</Box>
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            type="submit"
+            variant="outlined"
+            startIcon={<CreateNewFolder />}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            Add
+          </Button>
+        </Box>
+
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {tree.length === 0 && !isLoading && (
+          <Typography variant="body2" color="text.secondary">
+            You don&apos;t have any folders yet.
+          </Typography>
+        )}
+
+        {tree.map((folder) =>
+          editing?.id === folder.id ? (
+            <Box
+              key={folder.id}
+              sx={{ display: "flex", gap: 1, flexWrap: "wrap", py: 1 }}
+            >
+              <TextField
+                size="small"
+                value={editing.name}
+                onChange={(e) =>
+                  setEditing({ ...editing, name: e.target.value })
+                }
+                sx={{ flex: 2, minWidth: 160 }}
+              />
+              <Select
+                size="small"
+                value={editing.parentId}
+                onChange={(e) =>
+                  setEditing({ ...editing, parentId: e.target.value })
+                }
+                sx={{ flex: 1, minWidth: 140 }}
+              >
+                <MenuItem value={TOP_LEVEL}>Top level</MenuItem>
+                {tree
+                  .filter((option) => option.id !== folder.id)
+                  .map((option) => (
+                    <MenuItem key={option.id} value={option.id}>
+                      <Box sx={{ pl: option.depth * 2 }}>{option.name}</Box>
+                    </MenuItem>
+                  ))}
+              </Select>
+              <Button
+                variant="contained"
+                size="small"
+                onClick={handleSave}
+                disabled={!editing.name.trim() || isSaving}
+              >
+                Save
+              </Button>
+              <Button size="small" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </Box>
+          ) : (
+            <Box
+              key={folder.id}
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                gap: 1,
+                py: 0.5,
+                pl: folder.depth * 3,
+              }}
+            >
+              <Folder fontSize="small" color="action" />
+              <Typography variant="body2" sx={{ flex: 1 }}>
+                {folder.name}
+              </Typography>
+              <Chip
+                size="small"
+                variant="outlined"
+                label={`${folder.secretCount} secrets`}
+              />
+              <Tooltip title="Rename or move">
+                <IconButton
+                  size="small"
+                  onClick={() =>
+                    setEditing({
+                      id: folder.id,
+                      name: folder.name,
+                      parentId: folder.parentId ?? TOP_LEVEL,
+                    })
+                  }
+                >
+                  <Edit fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete folder">
+                <span>
+                  <IconButton
+                    size="small"
+                    color="error"
+                    onClick={() => deleteMutation.mutate({ id: folder.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          )
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
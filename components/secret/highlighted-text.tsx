@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import { Box } from "@/lib/mui-components";
+import { splitHighlight } from "@/lib/utils";
+import { type HighlightedTextProps } from "@/lib/types";
+
+export default function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {splitHighlight(text).map((part, index) =>
+        part.match ? (
+          <Box
+            key={index}
+            component="mark"
+            sx={{ bgcolor: "warning.light", color: "inherit", px: 0.25 }}
+          >
+            {part.text}
+          </Box>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Chip,
+  Typography,
+  Add,
+} from "@/lib/mui-components";
+import { parseCidr } from "@/lib/ip-allowlist";
+import { ALLOWLIST_LIMITS } from "@/lib/constants";
+import { type IpAllowlistFieldProps } from "@/lib/types";
+
+export default function IpAllowlistField({
+  value,
+  onChange,
+  error,
+  disabled,
+}: IpAllowlistFieldProps) {
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState("");
+
+  // Several ranges can be pasted at once, separated by commas or whitespace
+  const addDraft = () => {
+    const entries = draft.split(/[\s,]+/).filter(Boolean);
+    if (entries.length === 0) return;
+
+    const invalid = entries.filter((entry) => !parseCidr(entry));
+    if (invalid.length > 0) {
+      setDraftError(`Not a valid IP address or CIDR range: ${invalid[0]}`);
+      return;
+    }
+
+    const cidrs = [...new Set([...value, ...entries])];
+    if (cidrs.length > ALLOWLIST_LIMITS.MAX_RANGES) {
+      setDraftError(
+        `At most ${ALLOWLIST_LIMITS.MAX_RANGES} ranges can be allowed`
+      );
+      return;
+    }
+
+    onChange(cidrs);
+    setDraft("");
+    setDraftError("");
+  };
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+        <TextField
+          fullWidth
+          size="small"
+          label="IP address or CIDR range"
+          placeholder="203.0.113.0/24, 2001:db8::/32"
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setDraftError("");
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addDraft();
+            }
+          }}
+          error={!!draftError || !!error}
+          helperText={
+            draftError ||
+            error ||
+            "Links only open from these networks, for you as well"
+          }
+          disabled={disabled}
+        />
+        <Button
+          variant="outlined"
+          startIcon={<Add />}
+          onClick={addDraft}
+          disabled={disabled || !draft.trim()}
+          sx={{ whiteSpace: "nowrap" }}
+        >
+          Add
+        </Button>
+      </Box>
+
+      {value.length > 0 ? (
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 1 }}>
+          {value.map((cidr) => (
+            <Chip
+              key={cidr}
+              label={cidr}
+              size="small"
+              onDelete={
+                disabled
+                  ? undefined
+                  : () => onChange(value.filter((entry) => entry !== cidr))
+              }
+            />
+          ))}
+        </Box>
+      ) : (
+        <Typography variant="caption" color="text.secondary">
+          No ranges added yet
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { flattenFolderTree } from "@/lib/utils";
+import { type OrganizeSecretDialogProps } from "@/lib/types";
+
+// Select value standing for "not in a folder"
+const NO_FOLDER = "";
+
+export default function OrganizeSecretDialog({
+  open,
+  onClose,
+  secret,
+  onSaved,
+}: OrganizeSecretDialogProps) {
+  const [folderId, setFolderId] = useState(NO_FOLDER);
+  const [tags, setTags] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: folders } = trpc.folder.list.useQuery(undefined, {
+    enabled: open,
+  });
+  const tree = flattenFolderTree(folders ?? []);
+
+  const moveMutation = trpc.folder.moveSecrets.useMutation();
+  const tagsMutation = trpc.secret.setTags.useMutation();
+  const isSaving = moveMutation.isPending || tagsMutation.isPending;
+
+  useEffect(() => {
+    if (secret) {
+      setFolderId(secret.folderId ?? NO_FOLDER);
+      setTags(secret.tags.join(", "));
+      setError("");
+    }
+  }, [secret]);
+
+  const handleSave = async () => {
+    if (!secret) return;
+
+    try {
+      if ((folderId || null) !== secret.folderId) {
+        await moveMutation.mutateAsync({
+          secretIds: [secret.id],
+          folderId: folderId || null,
+        });
+      }
+      await tagsMutation.mutateAsync({
+        id: secret.id,
+        tags: tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      });
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Organize: {secret?.title}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Folders and tags are only visible to you, never to the people you
+          share the secret with.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+          <FormControl fullWidth>
+            <InputLabel>Folder</InputLabel>
+            <Select
+              value={folderId}
+              label="Folder"
+              onChange={(e) => setFolderId(e.target.value)}
+            >
+              <MenuItem value={NO_FOLDER}>No folder</MenuItem>
+              {tree.map((folder) => (
+                <MenuItem key={folder.id} value={folder.id}>
+                  <Box sx={{ pl: folder.depth * 2 }}>{folder.name}</Box>
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            label="Tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            helperText="Separate tags with commas"
+            fullWidth
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
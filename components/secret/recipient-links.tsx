@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+  Alert,
+  Chip,
+  IconButton,
+  Tooltip,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  CircularProgress,
+  ContentCopy,
+  Delete,
+  LinkOff,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { buildShareLink } from "@/lib/client-crypto";
+import { type RecipientLinksProps, type SecretPermission } from "@/lib/types";
+
+export default function RecipientLinks({
+  secretId,
+  slug,
+  shareKey,
+}: RecipientLinksProps) {
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<SecretPermission>("VIEW");
+  const [maxViews, setMaxViews] = useState("");
+  const [error, setError] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: shares, isLoading } = trpc.secret.listShares.useQuery({
+    secretId,
+  });
+
+  const refreshShares = () => {
+    setError("");
+    return utils.secret.listShares.invalidate({ secretId });
+  };
+
+  const onError = (error: { message: string }) => {
+    setError(error.message);
+  };
+
+  const shareMutation = trpc.secret.share.useMutation({
+    onSuccess: () => {
+      setEmail("");
+      return refreshShares();
+    },
+    onError,
+  });
+
+  const updateMutation = trpc.secret.updateShare.useMutation({
+    onSuccess: refreshShares,
+    onError,
+  });
+
+  const revokeLinkMutation = trpc.secret.revokeShareLink.useMutation({
+    onSuccess: refreshShares,
+    onError,
+  });
+
+  const removeMutation = trpc.secret.revokeShare.useMutation({
+    onSuccess: refreshShares,
+    onError,
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    // Sharing with an existing recipient updates them instead
+    shareMutation.mutate({
+      secretId,
+      emails: [email.trim()],
+      permission,
+      maxViews: maxViews ? parseInt(maxViews) : undefined,
+    });
+  };
+
+  const copyLink = async (shareId: string, link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedId(shareId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Recipient links
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Give each recipient their own link. Every link has its own view count
+        and can be revoked without affecting the others.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box
+        component="form"
+        onSubmit={handleAdd}
+        sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}
+      >
+        <TextField
+          label="Recipient email"
+          type="email"
+          size="small"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          sx={{ flex: 2, minWidth: 200 }}
+          required
+        />
+        <FormControl size="small" sx={{ flex: 1, minWidth: 120 }}>
+          <InputLabel>Permission</InputLabel>
+          <Select
+            value={permission}
+            label="Permission"
+            onChange={(e) => setPermission(e.target.value as SecretPermission)}
+          >
+            <MenuItem value="VIEW">View</MenuItem>
+            <MenuItem value="DOWNLOAD">Download</MenuItem>
+            <MenuItem value="EDIT">Edit</MenuItem>
+          </Select>
+        </FormControl>
+        <TextField
+          label="Max views"
+          type="number"
+          size="small"
+          value={maxViews}
+          onChange={(e) => setMaxViews(e.target.value)}
+          inputProps={{ min: 1, max: 100 }}
+          sx={{ flex: 1, minWidth: 100 }}
+        />
+        <Button
+          type="submit"
+          variant="outlined"
+          disabled={!email.trim() || shareMutation.isPending}
+        >
+          {shareMutation.isPending ? "Adding..." : "Add"}
+        </Button>
+      </Box>
+
+      {isLoading && (
+        <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {shares?.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          This secret isn&apos;t shared with anyone yet.
+        </Typography>
+      )}
+
+      {shares?.map((share) => {
+        const isRevoked = !!share.revokedAt;
+        const link =
+          slug && share.accessToken
+            ? buildShareLink(slug, shareKey, share.accessToken)
+            : null;
+
+        return (
+          <Box
+            key={share.id}
+            sx={{
+              border: "1px solid",
+              borderColor: "divider",
+              borderRadius: 1,
+              p: 1.5,
+              mb: 1,
+            }}
+          >
+            <Box
+              sx={{
+                display: "flex",
+                alignItems: "center",
+                gap: 1,
+                mb: 1,
+                flexWrap: "wrap",
+              }}
+            >
+              <Typography variant="body2" sx={{ flex: 1 }}>
+                {share.email}
+              </Typography>
+              <Select
+                size="small"
+                value={share.permissions}
+                onChange={(e) =>
+                  updateMutation.mutate({
+                    shareId: share.id,
+                    permission: e.target.value as SecretPermission,
+                  })
+                }
+                disabled={updateMutation.isPending}
+              >
+                <MenuItem value="VIEW">View</MenuItem>
+                <MenuItem value="DOWNLOAD">Download</MenuItem>
+                <MenuItem value="EDIT">Edit</MenuItem>
+              </Select>
+              <Chip
+                size="small"
+                label={
+                  share.maxViews
+                    ? `Views: ${share.currentViews}/${share.maxViews}`
+                    : "Unlimited views"
+                }
+                variant="outlined"
+              />
+              {isRevoked && <Chip size="small" label="Revoked" color="error" />}
+              <Tooltip title="Remove recipient">
+                <span>
+                  <IconButton
+                    onClick={() => removeMutation.mutate({ shareId: share.id })}
+                    color="error"
+                    size="small"
+                    disabled={removeMutation.isPending}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <TextField
+                fullWidth
+                size="small"
+                value={
+                  isRevoked
+                    ? "This link has been revoked"
+                    : (link ?? "Links to this secret are disabled")
+                }
+                InputProps={{ readOnly: true }}
+                disabled={isRevoked || !link}
+              />
+              <Tooltip title={copiedId === share.id ? "Copied!" : "Copy link"}>
+                <span>
+                  <IconButton
+                    onClick={() => link && copyLink(share.id, link)}
+                    color="primary"
+                    disabled={isRevoked || !link}
+                  >
+                    <ContentCopy />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Revoke link">
+                <span>
+                  <IconButton
+                    onClick={() =>
+                      revokeLinkMutation.mutate({ shareId: share.id })
+                    }
+                    color="error"
+                    disabled={isRevoked || revokeLinkMutation.isPending}
+                  >
+                    <LinkOff />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Typography,
+  Alert,
+  Card,
+  CardContent,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Paper,
+  Delete,
+  DeleteForever,
+  RestoreFromTrash,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { TRASH_LIMITS } from "@/lib/constants";
+import { type TrashListProps } from "@/lib/types";
+
+export default function TrashList({ onRestored }: TrashListProps) {
+  const [error, setError] = useState("");
+  // Secret waiting for confirmation before it is purged
+  const [purgingId, setPurgingId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: secrets, isLoading } = trpc.secret.listDeleted.useQuery();
+
+  const onError = (error: { message: string }) => {
+    setError(error.message);
+  };
+
+  const restoreMutation = trpc.secret.restore.useMutation({
+    onSuccess: () => {
+      setError("");
+      onRestored();
+      return utils.secret.listDeleted.invalidate();
+    },
+    onError,
+  });
+
+  const purgeMutation = trpc.secret.purge.useMutation({
+    onSuccess: () => {
+      setError("");
+      setPurgingId(null);
+      return utils.secret.listDeleted.invalidate();
+    },
+    onError: (error) => {
+      setPurgingId(null);
+      onError(error);
+    },
+  });
+
+  const purgingSecret = secrets?.find((secret) => secret.id === purgingId);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Deleted secrets can&apos;t be opened by anyone. They are deleted for
+        good after {TRASH_LIMITS.RETENTION_DAYS} days, or once they expire.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {secrets?.length === 0 ? (
+        <Paper sx={{ p: 6, textAlign: "center" }}>
+          <Delete sx={{ fontSize: 64, color: "text.secondary", mb: 2 }} />
+          <Typography variant="h6" gutterBottom>
+            Trash is empty
+          </Typography>
+        </Paper>
+      ) : (
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: {
+              xs: "1fr",
+              sm: "repeat(2, 1fr)",
+              lg: "repeat(3, 1fr)",
+            },
+            gap: 3,
+          }}
+        >
+          {secrets?.map((secret) => (
+            <Card key={secret.id}>
+              <CardContent>
+                <Typography variant="h6" component="h3" gutterBottom>
+                  {secret.title}
+                </Typography>
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  component="p"
+                >
+                  Deleted: {new Date(secret.deletedAt!).toLocaleDateString()}
+                </Typography>
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  component="p"
+                  sx={{ mb: 2 }}
+                >
+                  Deleted for good:{" "}
+                  {new Date(secret.purgesAt).toLocaleDateString()}
+                </Typography>
+                <Box sx={{ display: "flex", gap: 1 }}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<RestoreFromTrash />}
+                    onClick={() => restoreMutation.mutate({ id: secret.id })}
+                    disabled={restoreMutation.isPending}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<DeleteForever />}
+                    onClick={() => setPurgingId(secret.id)}
+                  >
+                    Delete Forever
+                  </Button>
+                </Box>
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      )}
+
+      <Dialog open={!!purgingSecret} onClose={() => setPurgingId(null)}>
+        <DialogTitle>Delete forever?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            &quot;{purgingSecret?.title}&quot; will be wiped right away and
+            can&apos;t be restored.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPurgingId(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => purgingId && purgeMutation.mutate({ id: purgingId })}
+            disabled={purgeMutation.isPending}
+          >
+            Delete Forever
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress,
+  Divider,
+  Drawer,
+  History,
+} from "@/lib/mui-components";
+import { trpc } from "@/components/providers/trpc-provider";
+import { type VersionHistoryDrawerProps } from "@/lib/types";
+
+export default function VersionHistoryDrawer({
+  open,
+  onClose,
+  secretId,
+  version,
+  onRestored,
+}: VersionHistoryDrawerProps) {
+  const [error, setError] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: versions, isLoading } = trpc.secret.listVersions.useQuery(
+    { id: secretId },
+    { enabled: open }
+  );
+
+  const restoreMutation = trpc.secret.restoreVersion.useMutation({
+    onSuccess: () => {
+      setError("");
+      utils.secret.listVersions.invalidate({ id: secretId });
+      onRestored();
+    },
+    onError: (error) => {
+      setError(error.message);
+    },
+  });
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: "100vw", sm: 400 }, p: 3 }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+          <History color="primary" />
+          <Typography variant="h6">Version History</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Restoring a version brings back its title and content. What you
+          replace is kept here as well.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {versions?.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No previous versions yet.
+          </Typography>
+        )}
+
+        {versions?.map((entry) => (
+          <Box key={entry.id}>
+            <Divider sx={{ my: 2 }} />
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                mb: 1,
+              }}
+            >
+              <Typography variant="subtitle2">
+                Version {entry.version}: {entry.title}
+              </Typography>
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() =>
+                  restoreMutation.mutate({
+                    id: secretId,
+                    versionId: entry.id,
+                    version,
+                  })
+                }
+                disabled={restoreMutation.isPending}
+              >
+                Restore
+              </Button>
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+              Replaced by {entry.changedBy?.name ?? "a deleted user"} on{" "}
+              {new Date(entry.createdAt).toLocaleString()}
+            </Typography>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 1 }}>
+              {entry.changedFields.map((field) => (
+                <Chip key={field} size="small" label={field} />
+              ))}
+            </Box>
+          </Box>
+        ))}
+      </Box>
+    </Drawer>
+  );
+}
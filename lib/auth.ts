@@ -1,11 +1,18 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
-import { type SessionUser, type AuthTokenPayload } from "@/lib/types";
+import {
+  type SessionUser,
+  type AuthTokenPayload,
+  type RecipientTokenPayload,
+} from "@/lib/types";
 
 const JWT_SECRET =
   process.env.JWT_SECRET ||
   "f0c1e5f5a9f85c1a2f2d96d3e51ecf3d3d3bb1cfe4789a514c53a0e5a8f74a42";
 
+// Separate key so recipient and session tokens can't stand in for each other
+const RECIPIENT_TOKEN_SECRET = `${JWT_SECRET}:recipient`;
+
 // Generate JWT token
 export const generateToken = (user: SessionUser): string => {
   return jwt.sign(
@@ -30,6 +37,30 @@ export const verifyToken = (token: string): AuthTokenPayload | null => {
   }
 };
 
+// Generate a token for a recipient who verified their email for a share
+export const generateRecipientToken = (share: {
+  id: string;
+  secretId: string;
+  email: string;
+}): string => {
+  return jwt.sign(
+    { shareId: share.id, secretId: share.secretId, email: share.email },
+    RECIPIENT_TOKEN_SECRET,
+    { expiresIn: "1h" }
+  );
+};
+
+// Verify a recipient token
+export const verifyRecipientToken = (
+  token: string
+): RecipientTokenPayload | null => {
+  try {
+    return jwt.verify(token, RECIPIENT_TOKEN_SECRET) as RecipientTokenPayload;
+  } catch {
+    return null;
+  }
+};
+
 // Hash password
 export const hashPassword = async (password: string): Promise<string> => {
   const saltRounds = 12;
@@ -0,0 +1,71 @@
+/**
+ * Blob Storage
+ *
+ * Pluggable storage for encrypted file chunks. Blobs are always encrypted
+ * before they reach the store, so a store never sees plaintext.
+ *
+ * The default store writes to the local filesystem under BLOB_STORE_DIR
+ * (`.data/blobs` by default). An S3-compatible store such as MinIO can be
+ * added by implementing `BlobStore` and selecting it in `getBlobStore`.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Remove every blob whose key starts with the prefix
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+let cachedStore: BlobStore | null = null;
+
+// ============================================================================
+// LOCAL FILESYSTEM STORE
+// ============================================================================
+
+function createLocalBlobStore(rootDir: string): BlobStore {
+  const root = path.resolve(rootDir);
+
+  // Keys are generated by us, but never let one escape the root
+  const resolveKey = (key: string) => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write then rename so readers never see a partial chunk
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+
+    async get(key) {
+      return fs.readFile(resolveKey(key));
+    },
+
+    async deletePrefix(prefix) {
+      await fs.rm(resolveKey(prefix), { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Get the configured blob store (created once per process)
+ */
+export function getBlobStore(): BlobStore {
+  if (!cachedStore) {
+    cachedStore = createLocalBlobStore(
+      process.env.BLOB_STORE_DIR || ".data/blobs"
+    );
+  }
+  return cachedStore;
+}
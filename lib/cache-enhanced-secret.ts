@@ -8,21 +8,65 @@
 import { db } from "./db";
 import { secretCache, userCache, analyticsCache } from "./redis";
 import { rateLimiters } from "./rate-limiter";
+import { sealContent, openContent, openSecret } from "./encryption";
+import { hashPassword } from "./auth";
+import { claimSecretView } from "./secret-views";
+import { burnSecret } from "./secret-burn";
+import {
+  assertIpAllowed,
+  assertSecretAccess,
+  assertSecretActivated,
+  verifySecretPassword,
+} from "./secret-access";
+import { trashSecret } from "./secret-trash";
 import type {
   Secret,
   SecretMetadata,
+  SecretContentType,
+  SealedContent,
   CacheCreateSecretInput,
   DatabaseSecret,
 } from "./types";
 
+// Helper function to pick the at-rest envelope out of a database secret
+function toSealedContent(secret: SealedContent): SealedContent {
+  return {
+    content: secret.content,
+    dataKey: secret.dataKey,
+    keyId: secret.keyId,
+  };
+}
+
+// Helper function to convert database secret to Secret with decrypted content
+function dbSecretToSecret(secret: DatabaseSecret): Secret {
+  return {
+    ...(openSecret(secret) as Secret),
+    password: undefined, // Don't return password hash in response
+  };
+}
+
+// Helper function to convert database secret to Secret without its content,
+// shaped like a cache hit
+function dbSecretWithoutContent(secret: DatabaseSecret): Secret {
+  return {
+    ...dbSecretToMetadata(secret),
+    content: "",
+    password: undefined, // Don't return password hash in response
+  };
+}
+
 // Helper function to convert database secret to SecretMetadata
-function dbSecretToMetadata(secret: DatabaseSecret): SecretMetadata {
+export function dbSecretToMetadata(
+  secret: Omit<DatabaseSecret, keyof SealedContent>
+): SecretMetadata {
   return {
     id: secret.id,
     title: secret.title,
     description: secret.description || undefined,
-    contentType: secret.contentType as "TEXT" | "FILE",
+    contentType: secret.contentType as SecretContentType,
     fileName: secret.fileName || undefined,
+    iv: secret.iv || undefined,
+    activatesAt: secret.activatesAt,
     expiresAt: secret.expiresAt,
     deleteAfterView: secret.deleteAfterView,
     isPublic: secret.isPublic,
@@ -37,24 +81,40 @@ function dbSecretToMetadata(secret: DatabaseSecret): SecretMetadata {
 }
 
 /**
- * Get secret with caching
+ * Get secret with caching, without its content. Secrets that are not public
+ * are only returned to their owner and the users they were shared with.
+ * Content is only released by `accessCachedSecret`, which checks the IP
+ * allowlist and password first.
  */
 export async function getCachedSecret(
   secretId: string,
-  includeContent = true
+  userId?: string
 ): Promise<Secret | null> {
+  const secret = await loadCachedSecret(secretId);
+
+  // Checked outside the cache fallback so a denial is never swallowed.
+  // Owners can read their secrets before they activate.
+  if (secret) {
+    await assertSecretAccess(secret, { userId });
+    if (secret.createdById !== userId) {
+      assertSecretActivated(secret);
+    }
+  }
+
+  return secret;
+}
+
+// Read a secret from the cache, filling the cache from the database on a miss
+async function loadCachedSecret(secretId: string): Promise<Secret | null> {
   try {
     // Try to get from cache first
-    const [cachedMetadata, cachedContent] = await Promise.all([
-      secretCache.getMetadata(secretId),
-      includeContent ? secretCache.getContent(secretId) : Promise.resolve(null),
-    ]);
+    const cachedMetadata = await secretCache.getMetadata(secretId);
 
     // If we have cached data, return it
-    if (cachedMetadata && (!includeContent || cachedContent)) {
+    if (cachedMetadata) {
       return {
         ...cachedMetadata,
-        content: cachedContent || "",
+        content: "",
         password: undefined, // Don't return password in response
       };
     }
@@ -71,19 +131,21 @@ export async function getCachedSecret(
     // Cache the metadata and content separately
     const metadata = dbSecretToMetadata(secret as DatabaseSecret);
 
-    // Cache metadata and content separately for better performance
+    // Cache metadata and content separately for better performance.
+    // Content stays sealed in the cache, just like in the database.
     await Promise.all([
       secretCache.setMetadata(secretId, metadata),
-      secretCache.setContent(secretId, secret.content),
+      secretCache.setContent(secretId, toSealedContent(secret)),
     ]);
 
-    return secret as Secret;
+    return dbSecretWithoutContent(secret as DatabaseSecret);
   } catch (error) {
     console.error("Error getting cached secret:", error);
     // Fallback to database if cache fails
-    return db.secret.findUnique({
+    const secret = await db.secret.findUnique({
       where: { id: secretId },
-    }) as Promise<Secret | null>;
+    });
+    return secret ? dbSecretWithoutContent(secret as DatabaseSecret) : null;
   }
 }
 
@@ -105,10 +167,12 @@ export async function createCachedSecret(
     );
   }
 
-  // Create in database
+  // Create in database, with content sealed under a fresh data key
   const secret = await db.secret.create({
     data: {
       ...input,
+      ...sealContent(input.content),
+      password: input.password ? await hashPassword(input.password) : undefined,
       contentType: input.contentType || "TEXT",
       deleteAfterView: input.deleteAfterView || false,
       isPublic: input.isPublic || false,
@@ -123,7 +187,7 @@ export async function createCachedSecret(
 
   await Promise.all([
     secretCache.setMetadata(secret.id, metadata),
-    secretCache.setContent(secret.id, secret.content),
+    secretCache.setContent(secret.id, toSealedContent(secret)),
   ]);
 
   // Log analytics
@@ -135,7 +199,7 @@ export async function createCachedSecret(
     ipAddress,
   });
 
-  return secret as Secret;
+  return dbSecretToSecret(secret as DatabaseSecret);
 }
 
 /**
@@ -158,7 +222,7 @@ export async function accessCachedSecret(
   }
 
   // Get secret from cache
-  const secret = await getCachedSecret(secretId, true);
+  const secret = await getCachedSecret(secretId, userId);
   if (!secret) {
     throw new Error("Secret not found");
   }
@@ -177,16 +241,38 @@ export async function accessCachedSecret(
     throw new Error("Secret is not active");
   }
 
-  // Check password if required
-  if (secret.password && password !== secret.password) {
-    throw new Error("Invalid password");
-  }
+  // Views are not counted before activation, not even the owner's
+  assertSecretActivated(secret);
 
-  // Increment view count in database and cache
-  const updatedSecret = await db.secret.update({
+  // Check the allowlist and password if set. Neither is cached, so read
+  // them from the database, along with the content they protect.
+  const stored = await db.secret.findUnique({
     where: { id: secretId },
-    data: { currentViews: { increment: 1 } },
+    select: {
+      password: true,
+      allowedCidrs: true,
+      content: true,
+      dataKey: true,
+      keyId: true,
+    },
   });
+  if (!stored) {
+    throw new Error("Secret not found");
+  }
+
+  await assertIpAllowed(
+    { id: secretId, allowedCidrs: stored.allowedCidrs },
+    { userId, ipAddress, userAgent }
+  );
+  // Rate limited, and accepts passwords saved before hashing
+  await verifySecretPassword({ id: secretId, ...stored }, password, ipAddress);
+
+  // Claim the view atomically, deactivating one-time secrets in the same update
+  const currentViews = await claimSecretView(db, secret);
+  if (currentViews === null) {
+    await secretCache.deleteSecret(secretId);
+    throw new Error("Secret is no longer available");
+  }
 
   // Update cache with new view count
   const updatedMetadata: SecretMetadata = {
@@ -195,16 +281,18 @@ export async function accessCachedSecret(
     description: secret.description,
     contentType: secret.contentType,
     fileName: secret.fileName,
+    iv: secret.iv,
+    activatesAt: secret.activatesAt,
     expiresAt: secret.expiresAt,
     deleteAfterView: secret.deleteAfterView,
     isPublic: secret.isPublic,
     maxViews: secret.maxViews,
-    currentViews: updatedSecret.currentViews,
+    currentViews,
     isActive: secret.isActive,
     createdAt: secret.createdAt,
     updatedAt: secret.updatedAt,
     createdById: secret.createdById,
-    hasPassword: !!secret.password,
+    hasPassword: !!stored.password,
   };
 
   await secretCache.setMetadata(secretId, updatedMetadata);
@@ -232,21 +320,16 @@ export async function accessCachedSecret(
 
   const shouldDeleteAfterView = secret.deleteAfterView;
 
-  // If it's a one-time view, mark as inactive
+  // One-time secrets are wiped once read
   if (shouldDeleteAfterView) {
-    await Promise.all([
-      db.secret.update({
-        where: { id: secretId },
-        data: { isActive: false },
-      }),
-      secretCache.deleteSecret(secretId),
-    ]);
+    await burnSecret(secretId);
   }
 
   return {
     secret: {
       ...secret,
-      currentViews: updatedSecret.currentViews,
+      content: openContent(toSealedContent(stored)),
+      currentViews,
     },
     shouldDeleteAfterView,
   };
@@ -260,9 +343,7 @@ export async function getUserSecrets(
 ): Promise<SecretMetadata[]> {
   try {
     // Try to get from user cache first
-    const cachedSecrets = await userCache.getProfile<SecretMetadata[]>(
-      `secrets:${userId}`
-    );
+    const cachedSecrets = await userCache.getSecretList(userId);
     if (cachedSecrets) {
       return cachedSecrets;
     }
@@ -279,6 +360,8 @@ export async function getUserSecrets(
         description: true,
         contentType: true,
         fileName: true,
+        iv: true,
+        activatesAt: true,
         expiresAt: true,
         deleteAfterView: true,
         isPublic: true,
@@ -298,7 +381,7 @@ export async function getUserSecrets(
     );
 
     // Cache the result
-    await userCache.setProfile(`secrets:${userId}`, secretMetadata);
+    await userCache.setSecretList(userId, secretMetadata);
 
     return secretMetadata;
   } catch (error) {
@@ -316,22 +399,13 @@ export async function deleteCachedSecret(
 ): Promise<boolean> {
   try {
     // Verify ownership
-    const secret = await getCachedSecret(secretId, false);
+    const secret = await getCachedSecret(secretId, userId);
     if (!secret || secret.createdById !== userId) {
       throw new Error("Secret not found or unauthorized");
     }
 
-    // Soft delete in database
-    await db.secret.update({
-      where: { id: secretId },
-      data: { isActive: false },
-    });
-
-    // Remove from cache
-    await secretCache.deleteSecret(secretId);
-
-    // Invalidate user's secrets cache
-    await userCache.deleteSession(`secrets:${userId}`);
+    // Move it to the trash, which also invalidates the cached copies
+    await trashSecret(secretId, userId);
 
     // Log the deletion
     await analyticsCache.logAccess(secretId, userId, {
@@ -358,15 +432,25 @@ export async function updateCachedSecret(
 ): Promise<Secret> {
   try {
     // Verify ownership first
-    const existingSecret = await getCachedSecret(secretId, false);
+    const existingSecret = await getCachedSecret(secretId, userId);
     if (!existingSecret || existingSecret.createdById !== userId) {
       throw new Error("Secret not found or unauthorized");
     }
 
-    // Update in database
+    // Update in database, resealing content under a fresh data key
     const updatedSecret = await db.secret.update({
       where: { id: secretId },
-      data: updates,
+      data: {
+        ...updates,
+        ...(updates.content ? sealContent(updates.content) : {}),
+        ...(updates.password !== undefined
+          ? {
+              password: updates.password
+                ? await hashPassword(updates.password)
+                : null,
+            }
+          : {}),
+      },
     });
 
     // Update cache
@@ -375,12 +459,12 @@ export async function updateCachedSecret(
     await Promise.all([
       secretCache.setMetadata(secretId, metadata),
       updates.content
-        ? secretCache.setContent(secretId, updates.content)
+        ? secretCache.setContent(secretId, toSealedContent(updatedSecret))
         : Promise.resolve(),
     ]);
 
     // Invalidate user's secrets cache
-    await userCache.deleteSession(`secrets:${userId}`);
+    await userCache.deleteSecretList(userId);
 
     // Log the update
     await analyticsCache.logAccess(secretId, userId, {
@@ -390,7 +474,8 @@ export async function updateCachedSecret(
       action: "update",
     });
 
-    return updatedSecret as Secret;
+    // Content is only released by `accessCachedSecret`
+    return dbSecretWithoutContent(updatedSecret as DatabaseSecret);
   } catch (error) {
     console.error("Error updating cached secret:", error);
     throw error;
@@ -0,0 +1,139 @@
+/**
+ * Client-side Encryption for SecureShare
+ *
+ * Zero-knowledge AES-GCM helpers built on the browser WebCrypto API.
+ * Content is encrypted before it leaves the browser; the key only ever
+ * lives in the `#fragment` of the share link, which is never sent to
+ * the server.
+ */
+
+const ALGORITHM = "AES-GCM";
+const KEY_LENGTH = 256;
+const IV_LENGTH = 12;
+
+export interface EncryptedPayload {
+  ciphertext: string;
+  iv: string;
+  key: string;
+}
+
+// ============================================================================
+// ENCODING HELPERS
+// ============================================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// KEY MANAGEMENT
+// ============================================================================
+
+/**
+ * Generate a new random AES-GCM key, exported as a base64url string
+ */
+export async function generateSecretKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey(
+    { name: ALGORITHM, length: KEY_LENGTH },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const raw = await crypto.subtle.exportKey("raw", key);
+  return toBase64Url(new Uint8Array(raw));
+}
+
+async function importSecretKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromBase64Url(key), ALGORITHM, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/**
+ * Read the decryption key from the current URL fragment
+ */
+export function getKeyFromFragment(): string | null {
+  if (typeof window === "undefined") return null;
+  const key = window.location.hash.replace(/^#/, "");
+  return key || null;
+}
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+/**
+ * Encrypt plaintext content. A fresh key is generated unless one is provided.
+ */
+export async function encryptContent(
+  plaintext: string,
+  existingKey?: string
+): Promise<EncryptedPayload> {
+  const key = existingKey || (await generateSecretKey());
+  const cryptoKey = await importSecretKey(key);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    ciphertext: toBase64Url(new Uint8Array(encrypted)),
+    iv: toBase64Url(iv),
+    key,
+  };
+}
+
+/**
+ * Decrypt ciphertext produced by `encryptContent`
+ */
+export async function decryptContent(
+  ciphertext: string,
+  iv: string,
+  key: string
+): Promise<string> {
+  const cryptoKey = await importSecretKey(key);
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: ALGORITHM, iv: fromBase64Url(iv) },
+    cryptoKey,
+    fromBase64Url(ciphertext)
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
+
+/**
+ * Build the shareable link for a secret, carrying the key in the fragment.
+ * A recipient's own link also carries their share's access token.
+ */
+export function buildShareLink(
+  slug: string,
+  key?: string | null,
+  linkToken?: string | null
+): string {
+  const url = new URL(`/secret/${slug}`, window.location.origin);
+  if (linkToken) url.searchParams.set("link", linkToken);
+  if (key) url.hash = key;
+  return url.toString();
+}
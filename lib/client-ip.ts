@@ -0,0 +1,53 @@
+/**
+ * Client IP
+ *
+ * The address a request came from, as reported by the reverse proxies in
+ * front of the app. Each proxy appends the address it received the request
+ * from to X-Forwarded-For, so only the last `TRUSTED_PROXY_COUNT` entries
+ * can be trusted; anything to their left was sent by the client and may be
+ * forged. With no trusted proxies the headers are ignored entirely.
+ *
+ * X-Real-IP is only used when `TRUST_X_REAL_IP=true`, for a proxy that
+ * always overwrites it. Otherwise a client could set it itself whenever
+ * X-Forwarded-For is missing.
+ */
+
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+/**
+ * Number of reverse proxies in front of the app
+ */
+export function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT ?? "", 10);
+  return Number.isNaN(count) || count < 0 ? DEFAULT_TRUSTED_PROXY_COUNT : count;
+}
+
+/**
+ * Whether the proxy in front of the app sets X-Real-IP on every request
+ */
+export function isRealIpTrusted(): boolean {
+  return process.env.TRUST_X_REAL_IP === "true";
+}
+
+/**
+ * The client's IP address from the proxy headers, or "unknown"
+ */
+export function getClientIp(
+  forwardedFor: string | undefined,
+  realIp: string | undefined
+): string {
+  const proxies = getTrustedProxyCount();
+  if (proxies === 0) return "unknown";
+
+  const hops = (forwardedFor ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  // The entry added by the outermost trusted proxy is the client
+  if (hops.length > 0) {
+    return hops[Math.max(0, hops.length - proxies)];
+  }
+
+  return (isRealIpTrusted() && realIp?.trim()) || "unknown";
+}
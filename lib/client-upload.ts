@@ -0,0 +1,117 @@
+/**
+ * Client-side File Uploads
+ *
+ * Sends a file to the server in chunks (`PUT /api/uploads/{id}/chunks/{index}`).
+ * The upload ID is remembered per file in localStorage, so retrying after a
+ * failure or a page reload only sends the chunks the server is missing.
+ */
+
+const MAX_ATTEMPTS = 3;
+
+export interface UploadSession {
+  id: string;
+  chunkSize: number;
+  chunkCount: number;
+}
+
+export interface UploadApi {
+  start(input: { fileName: string; size: number }): Promise<UploadSession>;
+  status(
+    id: string
+  ): Promise<UploadSession & { receivedChunks: number[]; attached: boolean }>;
+}
+
+function uploadStorageKey(file: File): string {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Forget the remembered upload for a file, once it is attached to a secret
+ */
+export function forgetUpload(file: File): void {
+  localStorage.removeItem(uploadStorageKey(file));
+}
+
+// Resume a previous upload of the same file if the server still has it
+async function resumeOrStart(
+  file: File,
+  api: UploadApi
+): Promise<{ session: UploadSession; received: Set<number> }> {
+  const previousId = localStorage.getItem(uploadStorageKey(file));
+
+  if (previousId) {
+    try {
+      const status = await api.status(previousId);
+      if (!status.attached) {
+        return { session: status, received: new Set(status.receivedChunks) };
+      }
+    } catch {
+      // Purged or not ours any more, start over
+    }
+  }
+
+  const session = await api.start({ fileName: file.name, size: file.size });
+  localStorage.setItem(uploadStorageKey(file), session.id);
+  return { session, received: new Set() };
+}
+
+async function putChunk(uploadId: string, index: number, chunk: Blob) {
+  const token = localStorage.getItem("auth-token");
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null;
+
+    try {
+      response = await fetch(`/api/uploads/${uploadId}/chunks/${index}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: chunk,
+      });
+    } catch (err) {
+      // Network failure, retry unless out of attempts
+      if (attempt >= MAX_ATTEMPTS) throw err;
+    }
+
+    if (response?.ok) return;
+
+    // Client errors will not succeed on retry
+    if (response && (response.status < 500 || attempt >= MAX_ATTEMPTS)) {
+      const { error } = await response.json().catch(() => ({}));
+      throw new Error(error || `Chunk ${index} failed (${response.status})`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+  }
+}
+
+/**
+ * Upload a file, resuming a previous attempt when possible.
+ * Resolves with the upload ID to pass to `secret.create` as `fileId`.
+ */
+export async function uploadFile(
+  file: File,
+  api: UploadApi,
+  onProgress?: (fraction: number) => void
+): Promise<string> {
+  const { session, received } = await resumeOrStart(file, api);
+  onProgress?.(received.size / session.chunkCount);
+
+  for (let index = 0; index < session.chunkCount; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * session.chunkSize;
+    await putChunk(
+      session.id,
+      index,
+      file.slice(start, start + session.chunkSize)
+    );
+
+    received.add(index);
+    onProgress?.(received.size / session.chunkCount);
+  }
+
+  return session.id;
+}
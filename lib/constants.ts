@@ -45,6 +45,79 @@ export const MAX_VIEWS_LIMITS = {
   DEFAULT: 1,
 } as const;
 
+/**
+ * File upload limits
+ */
+export const FILE_UPLOAD_LIMITS = {
+  MAX_FILE_SIZE: 25 * 1024 * 1024, // 25 MB
+  CHUNK_SIZE: 1024 * 1024, // 1 MB
+  ABANDONED_AFTER_HOURS: 24, // Unattached uploads are purged after this
+} as const;
+
+/**
+ * Version history limits
+ */
+export const SECRET_HISTORY_LIMITS = {
+  DEFAULT_DEPTH: 10, // Prior versions kept per secret, see SECRET_HISTORY_DEPTH
+} as const;
+
+/**
+ * Pagination limits
+ */
+export const PAGINATION_LIMITS = {
+  DEFAULT_LIMIT: 24,
+  MAX_LIMIT: 100,
+} as const;
+
+/**
+ * Markers around matched terms in full-text search highlights. Control
+ * characters can't clash with text users type.
+ */
+export const SEARCH_HIGHLIGHT = {
+  START: "\u0002",
+  STOP: "\u0003",
+} as const;
+
+/**
+ * Folder and tag limits
+ */
+export const ORGANIZATION_LIMITS = {
+  FOLDER_NAME_MAX_LENGTH: 100,
+  MAX_TAGS: 20, // Per secret
+  TAG_MAX_LENGTH: 50,
+} as const;
+
+/**
+ * Bulk operation limits
+ */
+export const BULK_LIMITS = {
+  MAX_SECRETS: 100, // Per request
+} as const;
+
+/**
+ * Renewal limits
+ */
+export const RENEWAL_LIMITS = {
+  DEFAULT_MAX_LIFETIME_DAYS: 365, // From creation, see SECRET_MAX_LIFETIME_DAYS
+  EXPIRING_SOON_HOURS: 24, // Listed under "Expiring soon" on the dashboard
+  RENEW_DAYS: 7, // How far one-click renew pushes out the expiry
+  SWEEP_GRACE_HOURS: 24, // Expired or used-up secrets can be renewed this long before they are burned
+} as const;
+
+/**
+ * IP allowlist limits
+ */
+export const ALLOWLIST_LIMITS = {
+  MAX_RANGES: 50, // CIDR ranges per secret
+} as const;
+
+/**
+ * Trash limits
+ */
+export const TRASH_LIMITS = {
+  RETENTION_DAYS: 30, // Deleted secrets are burned for good after this
+} as const;
+
 /**
  * Application metadata
  */
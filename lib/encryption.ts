@@ -0,0 +1,217 @@
+/**
+ * Envelope Encryption for SecureShare
+ *
+ * Secret content is encrypted at rest with a random per-secret data key
+ * (AES-256-GCM). The data key is itself encrypted ("wrapped") with a master
+ * key from the keyring, so rotating the master key only requires re-wrapping
+ * data keys, never re-encrypting content.
+ *
+ * Keyring sources, in order of precedence:
+ *   1. SECRET_KEYRING_FILE - path to a JSON keyring file
+ *   2. SECRET_KEYRING      - the same JSON inline in an env var
+ *
+ * Keyring format:
+ *   { "activeKeyId": "2025-01", "keys": { "2024-06": "<base64>", "2025-01": "<base64>" } }
+ *
+ * Every key is 32 random bytes, base64 encoded. Retired keys must stay in the
+ * keyring until the re-wrap job has moved every secret to the active key.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import type { SealedContent } from "./types";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+// Development-only keyring so local setups work without configuration
+const DEV_KEYRING: Keyring = {
+  activeKeyId: "dev",
+  keys: { dev: Buffer.alloc(KEY_LENGTH, 7).toString("base64") },
+};
+
+let cachedKeyring: Keyring | null = null;
+
+// ============================================================================
+// KEYRING
+// ============================================================================
+
+function parseKeyring(raw: string): Keyring {
+  const keyring = JSON.parse(raw) as Keyring;
+
+  if (!keyring.activeKeyId || !keyring.keys?.[keyring.activeKeyId]) {
+    throw new Error("Keyring active key is missing from keyring keys");
+  }
+
+  for (const [keyId, key] of Object.entries(keyring.keys)) {
+    if (Buffer.from(key, "base64").length !== KEY_LENGTH) {
+      throw new Error(`Keyring key ${keyId} must be ${KEY_LENGTH} bytes`);
+    }
+  }
+
+  return keyring;
+}
+
+/**
+ * Load the master keyring (cached for the lifetime of the process)
+ */
+export function getKeyring(): Keyring {
+  if (cachedKeyring) return cachedKeyring;
+
+  if (process.env.SECRET_KEYRING_FILE) {
+    cachedKeyring = parseKeyring(
+      fs.readFileSync(process.env.SECRET_KEYRING_FILE, "utf8")
+    );
+  } else if (process.env.SECRET_KEYRING) {
+    cachedKeyring = parseKeyring(process.env.SECRET_KEYRING);
+  } else if (process.env.NODE_ENV === "development") {
+    // Only `next dev` sets this; scripts run under tsx leave NODE_ENV unset
+    // and must not seal data under a publicly known key
+    console.warn(
+      "No SECRET_KEYRING_FILE or SECRET_KEYRING configured, using development keyring"
+    );
+    cachedKeyring = DEV_KEYRING;
+  } else {
+    throw new Error("SECRET_KEYRING_FILE or SECRET_KEYRING must be configured");
+  }
+
+  return cachedKeyring;
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getKeyring().keys[keyId];
+  if (!key) {
+    throw new Error(`Master key ${keyId} not found in keyring`);
+  }
+  return Buffer.from(key, "base64");
+}
+
+// ============================================================================
+// AES-GCM PRIMITIVES
+// ============================================================================
+
+// Output layout: iv | authTag | ciphertext
+function encryptRaw(plaintext: Buffer, key: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decryptRaw(data: Buffer, key: Buffer): Buffer {
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + 16);
+  const ciphertext = data.subarray(IV_LENGTH + 16);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function encryptBuffer(plaintext: Buffer, key: Buffer): string {
+  return encryptRaw(plaintext, key).toString("base64");
+}
+
+function decryptBuffer(payload: string, key: Buffer): Buffer {
+  return decryptRaw(Buffer.from(payload, "base64"), key);
+}
+
+// ============================================================================
+// ENVELOPE OPERATIONS
+// ============================================================================
+
+/**
+ * Encrypt content under a fresh data key wrapped by the active master key
+ */
+export function sealContent(plaintext: string): SealedContent {
+  const { activeKeyId } = getKeyring();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+  return {
+    content: encryptBuffer(Buffer.from(plaintext, "utf8"), dataKey),
+    dataKey: encryptBuffer(dataKey, getMasterKey(activeKeyId)),
+    keyId: activeKeyId,
+  };
+}
+
+/**
+ * Decrypt sealed content. Legacy rows without a data key are returned as-is.
+ */
+export function openContent(sealed: SealedContent): string {
+  if (!sealed.dataKey || !sealed.keyId) {
+    return sealed.content;
+  }
+
+  const dataKey = decryptBuffer(sealed.dataKey, getMasterKey(sealed.keyId));
+  return decryptBuffer(sealed.content, dataKey).toString("utf8");
+}
+
+/**
+ * Decrypt a secret row for callers, dropping the envelope fields
+ */
+export function openSecret<T extends SealedContent>(
+  secret: T
+): Omit<T, "dataKey" | "keyId"> {
+  const { dataKey, keyId, ...rest } = secret;
+  return { ...rest, content: openContent({ ...secret, dataKey, keyId }) };
+}
+
+/**
+ * Create a fresh data key wrapped by the active master key, for content
+ * such as file chunks that is encrypted piece by piece
+ */
+export function createDataKey(): { dataKey: string; keyId: string } {
+  const { activeKeyId } = getKeyring();
+
+  return {
+    dataKey: encryptBuffer(
+      crypto.randomBytes(KEY_LENGTH),
+      getMasterKey(activeKeyId)
+    ),
+    keyId: activeKeyId,
+  };
+}
+
+/**
+ * Encrypt binary data under a wrapped data key from `createDataKey`
+ */
+export function sealBuffer(
+  data: Buffer,
+  wrapped: { dataKey: string; keyId: string }
+): Buffer {
+  const dataKey = decryptBuffer(wrapped.dataKey, getMasterKey(wrapped.keyId));
+  return encryptRaw(data, dataKey);
+}
+
+/**
+ * Decrypt binary data produced by `sealBuffer`
+ */
+export function openBuffer(
+  data: Buffer,
+  wrapped: { dataKey: string; keyId: string }
+): Buffer {
+  const dataKey = decryptBuffer(wrapped.dataKey, getMasterKey(wrapped.keyId));
+  return decryptRaw(data, dataKey);
+}
+
+/**
+ * Re-wrap a data key under the active master key. Content is untouched.
+ */
+export function rewrapDataKey(
+  dataKey: string,
+  keyId: string
+): { dataKey: string; keyId: string } {
+  const { activeKeyId } = getKeyring();
+  const unwrapped = decryptBuffer(dataKey, getMasterKey(keyId));
+
+  return {
+    dataKey: encryptBuffer(unwrapped, getMasterKey(activeKeyId)),
+    keyId: activeKeyId,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Expiry Sweeper
+ *
+ * Burns secrets that are past `expiresAt` or have used up `maxViews`, so
+ * their content does not linger until someone happens to request them.
+ * Owners get a grace period to renew them first.
+ * Also purges verification codes that have expired or been used.
+ */
+
+import { AuditAction, type Prisma } from "@prisma/client";
+import { db } from "./db";
+import { userCache } from "./redis";
+import { wipeSecret, releaseBurnedSecret } from "./secret-burn";
+import { RENEWAL_LIMITS } from "./constants";
+
+export interface SweepResult {
+  expired: number; // Burned because expiresAt passed
+  exhausted: number; // Burned because maxViews was reached
+  skipped: number; // Rows changed concurrently, picked up on the next run
+  failed: number;
+}
+
+// Unburned secrets that have not been viewable for the grace period, in
+// which their owner can still renew them. A used-up secret's grace period
+// runs from its last granted access, since `updatedAt` also moves when it is
+// tagged or filed. Secrets whose own views are used up stay while a
+// recipient's share still has views left.
+function sweepableWhere(now: Date): Prisma.SecretWhereInput {
+  const graceCutoff = new Date(
+    now.getTime() - RENEWAL_LIMITS.SWEEP_GRACE_HOURS * 60 * 60 * 1000
+  );
+
+  return {
+    burnedAt: null,
+    OR: [
+      { expiresAt: { lte: graceCutoff } },
+      {
+        maxViews: { not: null },
+        currentViews: { gte: db.secret.fields.maxViews },
+        accessLogs: {
+          none: { deniedReason: null, accessedAt: { gt: graceCutoff } },
+        },
+        sharedSecrets: {
+          none: {
+            revokedAt: null,
+            AND: [
+              { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+              {
+                OR: [
+                  { maxViews: null },
+                  { currentViews: { lt: db.sharedSecret.fields.maxViews } },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Burn every expired or exhausted secret and record an audit event for each
+ */
+export async function sweepExpiredSecrets(
+  batchSize = 100
+): Promise<SweepResult> {
+  const now = new Date();
+  const result: SweepResult = {
+    expired: 0,
+    exhausted: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  const affectedUsers = new Set<string>();
+
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await db.secret.findMany({
+      where: {
+        ...sweepableWhere(now),
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      select: {
+        id: true,
+        createdById: true,
+        expiresAt: true,
+        maxViews: true,
+        currentViews: true,
+      },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const secret of batch) {
+      const action =
+        secret.expiresAt && secret.expiresAt <= now
+          ? AuditAction.SECRET_EXPIRED
+          : AuditAction.SECRET_EXHAUSTED;
+
+      try {
+        // Re-check the condition so a concurrent extension is never burned
+        const burned = await db.$transaction(async (tx) => {
+          const wiped = await wipeSecret(tx, secret.id, sweepableWhere(now));
+          if (!wiped) return null;
+
+          await tx.auditLog.create({
+            data: {
+              secretId: secret.id,
+              action,
+              details: {
+                expiresAt: secret.expiresAt?.toISOString() ?? null,
+                maxViews: secret.maxViews,
+                currentViews: secret.currentViews,
+              },
+            },
+          });
+
+          return wiped;
+        });
+
+        if (!burned) {
+          result.skipped++;
+          continue;
+        }
+
+        if (action === AuditAction.SECRET_EXPIRED) {
+          result.expired++;
+        } else {
+          result.exhausted++;
+        }
+
+        await releaseBurnedSecret(burned);
+        affectedUsers.add(secret.createdById);
+      } catch (error) {
+        console.error(`Failed to sweep secret ${secret.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  // Owners' cached secret lists still show the swept secrets as active
+  await Promise.all(
+    [...affectedUsers].map((userId) => userCache.deleteSecretList(userId))
+  );
+
+  return result;
+}
+
+/**
+ * Delete verification codes that have expired or already been used
+ */
+export async function purgeVerificationCodes(): Promise<number> {
+  const { count } = await db.verificationCode.deleteMany({
+    where: {
+      OR: [{ expiresAt: { lte: new Date() } }, { used: true }],
+    },
+  });
+
+  return count;
+}
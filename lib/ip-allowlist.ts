@@ -0,0 +1,124 @@
+/**
+ * IP Allowlists
+ *
+ * Secrets can be limited to a list of CIDR ranges (`10.0.0.0/8`,
+ * `2001:db8::/32`, or a single address). Parsing has no Node dependencies,
+ * so the editor validates ranges with the same rules the server enforces.
+ */
+
+export interface CidrRange {
+  bytes: number[]; // 4 bytes for IPv4, 16 for IPv6
+  prefix: number;
+}
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+
+  const bytes = parts.map((part) =>
+    /^(0|[1-9]\d{0,2})$/.test(part) ? Number(part) : NaN
+  );
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+function parseIPv6(value: string): number[] | null {
+  const halves = value.split("::");
+  if (halves.length > 2) return null;
+
+  const groupsOf = (half: string): number[] | null => {
+    if (!half) return [];
+    const groups: number[] = [];
+    const parts = half.split(":");
+
+    for (const [index, part] of parts.entries()) {
+      // The last 32 bits may be written as an IPv4 address
+      if (index === parts.length - 1 && part.includes(".")) {
+        const ipv4 = parseIPv4(part);
+        if (!ipv4) return null;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(part)) {
+        groups.push(parseInt(part, 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<number>(missing).fill(0), ...tail];
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+// IPv4 clients may show up as IPv4-mapped IPv6 addresses (::ffff:a.b.c.d)
+function unmapIPv4(bytes: number[]): number[] {
+  const isMapped =
+    bytes.length === 16 &&
+    bytes.slice(0, 10).every((byte) => byte === 0) &&
+    bytes[10] === 0xff &&
+    bytes[11] === 0xff;
+  return isMapped ? bytes.slice(12) : bytes;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes
+ */
+export function parseIpAddress(value: string): number[] | null {
+  const address = value.trim().replace(/%.*$/, ""); // Drop IPv6 zone IDs
+  return address.includes(":") ? parseIPv6(address) : parseIPv4(address);
+}
+
+/**
+ * Parse a CIDR range. A bare address is a range of just that address.
+ */
+export function parseCidr(value: string): CidrRange | null {
+  const [address, prefix, ...rest] = value.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const bytes = parseIpAddress(address);
+  if (!bytes) return null;
+
+  const maxPrefix = bytes.length * 8;
+  if (prefix === undefined) return { bytes, prefix: maxPrefix };
+
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) return null;
+  return { bytes, prefix: Number(prefix) };
+}
+
+/**
+ * Check whether an address falls within a CIDR range
+ */
+export function isInCidrRange(bytes: number[], range: CidrRange): boolean {
+  if (bytes.length !== range.bytes.length) return false;
+
+  for (let bit = 0; bit < range.prefix; bit += 8) {
+    const bits = Math.min(8, range.prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    const index = bit / 8;
+    if ((bytes[index] & mask) !== (range.bytes[index] & mask)) return false;
+  }
+  return true;
+}
+
+/**
+ * Check whether a client IP is allowed by a secret's allowlist. An empty
+ * allowlist allows everyone; otherwise unknown addresses are refused.
+ */
+export function isIpAllowed(ipAddress: string, allowedCidrs: string[]) {
+  if (allowedCidrs.length === 0) return true;
+
+  const bytes = parseIpAddress(ipAddress);
+  if (!bytes) return false;
+
+  const client = unmapIPv4(bytes);
+  return allowedCidrs.some((cidr) => {
+    const range = parseCidr(cidr);
+    return !!range && isInCidrRange(client, range);
+  });
+}
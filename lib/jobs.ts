@@ -0,0 +1,70 @@
+/**
+ * Scheduled Jobs
+ *
+ * Registry of maintenance jobs shared by the `/api/jobs` route (for
+ * platform cron triggers) and `scripts/run-jobs.ts` (for system cron).
+ * Jobs must be idempotent: a run may overlap or repeat a previous one.
+ */
+
+import { sweepExpiredSecrets, purgeVerificationCodes } from "./expiry-sweeper";
+import { purgeAbandonedUploads } from "./secret-files";
+import { purgeExpiredTrash } from "./secret-trash";
+
+export interface JobResult {
+  name: JobName;
+  success: boolean;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+export const jobs = {
+  "sweep-secrets": () => sweepExpiredSecrets(),
+  "purge-verification-codes": async () => ({
+    deleted: await purgeVerificationCodes(),
+  }),
+  "purge-abandoned-uploads": async () => ({
+    deleted: await purgeAbandonedUploads(),
+  }),
+  "purge-trash": () => purgeExpiredTrash(),
+} satisfies Record<string, () => Promise<unknown>>;
+
+export type JobName = keyof typeof jobs;
+
+export function isJobName(name: string): name is JobName {
+  return Object.hasOwn(jobs, name);
+}
+
+/**
+ * Run the given jobs one after another (all jobs by default).
+ * A failing job is reported in its result and does not stop the others.
+ */
+export async function runJobs(
+  names: JobName[] = Object.keys(jobs) as JobName[]
+): Promise<JobResult[]> {
+  const results: JobResult[] = [];
+
+  for (const name of names) {
+    const startedAt = Date.now();
+
+    try {
+      const result = await jobs[name]();
+      results.push({
+        name,
+        success: true,
+        durationMs: Date.now() - startedAt,
+        result,
+      });
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+      results.push({
+        name,
+        success: false,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,189 @@
+/**
+ * Master Key Rotation
+ *
+ * Re-wraps every secret's, version's and file's data key under the
+ * keyring's active master key. Runs online: reads keep working throughout
+ * because retired keys stay in the keyring until this job reports nothing
+ * left to re-wrap.
+ */
+
+import { db } from "./db";
+import { secretCache } from "./redis";
+import { getKeyring, rewrapDataKey, sealContent } from "./encryption";
+
+export interface RewrapResult {
+  activeKeyId: string;
+  rewrapped: number; // Data keys moved to the active master key
+  sealed: number; // Legacy plaintext rows encrypted for the first time
+  versions: number; // Version data keys moved to the active master key
+  files: number; // File data keys moved to the active master key
+  skipped: number; // Rows changed concurrently, picked up on the next run
+  failed: number;
+}
+
+/**
+ * Re-wrap all data keys not yet under the active master key
+ */
+export async function rewrapSecrets(batchSize = 100): Promise<RewrapResult> {
+  const { activeKeyId } = getKeyring();
+  const result: RewrapResult = {
+    activeKeyId,
+    rewrapped: 0,
+    sealed: 0,
+    versions: 0,
+    files: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await db.secret.findMany({
+      where: {
+        OR: [{ keyId: null }, { keyId: { not: activeKeyId } }],
+        burnedAt: null, // Burned rows have nothing left to encrypt
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      select: { id: true, content: true, dataKey: true, keyId: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const secret of batch) {
+      try {
+        // Guard on the values we read so a concurrent update is never clobbered
+        const { count } =
+          secret.dataKey && secret.keyId
+            ? await db.secret.updateMany({
+                where: {
+                  id: secret.id,
+                  keyId: secret.keyId,
+                  dataKey: secret.dataKey,
+                },
+                data: rewrapDataKey(secret.dataKey, secret.keyId),
+              })
+            : await db.secret.updateMany({
+                where: { id: secret.id, keyId: null, content: secret.content },
+                data: sealContent(secret.content),
+              });
+
+        if (count === 0) {
+          result.skipped++;
+          continue;
+        }
+
+        if (secret.dataKey) {
+          result.rewrapped++;
+        } else {
+          result.sealed++;
+        }
+
+        // Cached envelopes still reference the old key
+        await secretCache.deleteSecret(secret.id);
+      } catch (error) {
+        console.error(`Failed to re-wrap secret ${secret.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  await rewrapVersions(activeKeyId, batchSize, result);
+  await rewrapFiles(activeKeyId, batchSize, result);
+
+  return result;
+}
+
+// Previous versions keep their own data keys, re-wrapped the same way
+async function rewrapVersions(
+  activeKeyId: string,
+  batchSize: number,
+  result: RewrapResult
+): Promise<void> {
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await db.secretVersion.findMany({
+      where: {
+        keyId: { not: activeKeyId },
+        dataKey: { not: null },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      select: { id: true, dataKey: true, keyId: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const version of batch) {
+      if (!version.dataKey || !version.keyId) continue;
+
+      try {
+        const { count } = await db.secretVersion.updateMany({
+          where: {
+            id: version.id,
+            keyId: version.keyId,
+            dataKey: version.dataKey,
+          },
+          data: rewrapDataKey(version.dataKey, version.keyId),
+        });
+
+        if (count === 0) {
+          result.skipped++;
+        } else {
+          result.versions++;
+        }
+      } catch (error) {
+        console.error(`Failed to re-wrap version ${version.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+}
+
+// File chunks are sealed under a per-file data key, re-wrapped the same way
+async function rewrapFiles(
+  activeKeyId: string,
+  batchSize: number,
+  result: RewrapResult
+): Promise<void> {
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await db.secretFile.findMany({
+      where: {
+        keyId: { not: activeKeyId },
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      select: { id: true, dataKey: true, keyId: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const file of batch) {
+      try {
+        const { count } = await db.secretFile.updateMany({
+          where: { id: file.id, keyId: file.keyId, dataKey: file.dataKey },
+          data: rewrapDataKey(file.dataKey, file.keyId),
+        });
+
+        if (count === 0) {
+          result.skipped++;
+        } else {
+          result.files++;
+        }
+      } catch (error) {
+        console.error(`Failed to re-wrap file ${file.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * MIME Type Detection
+ *
+ * Detects a file's type from its leading bytes (magic numbers), falling
+ * back to the file extension. The browser-supplied type is never trusted.
+ */
+
+import { type SecretType } from "@prisma/client";
+
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+// Signatures checked against the start of the file
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mimeType: "application/x-7z-compressed", bytes: [0x37, 0x7a, 0xbc, 0xaf] },
+];
+
+// Zip-based formats are identified by extension once the zip magic matches
+const ZIP_EXTENSIONS: Record<string, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+};
+
+const TEXT_EXTENSIONS: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  pem: "application/x-pem-file",
+  key: "application/x-pem-file",
+  env: "text/plain",
+};
+
+const DOCUMENT_MIME_TYPES = new Set([
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  ...Object.values(ZIP_EXTENSIONS),
+]);
+
+// Types a browser can display without running anything from the file
+const PREVIEWABLE_MIME_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+]);
+
+function getExtension(fileName: string): string {
+  const index = fileName.lastIndexOf(".");
+  return index === -1 ? "" : fileName.slice(index + 1).toLowerCase();
+}
+
+// Treat content as text when the sample has no NUL bytes and is valid UTF-8
+function looksLikeText(head: Buffer): boolean {
+  if (head.includes(0)) return false;
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the MIME type of a file from its first bytes and name
+ */
+export function detectMimeType(head: Buffer, fileName: string): string {
+  const extension = getExtension(fileName);
+
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, i) => head[offset + i] === byte)
+  );
+
+  if (signature) {
+    if (signature.mimeType === "application/zip" && ZIP_EXTENSIONS[extension]) {
+      return ZIP_EXTENSIONS[extension];
+    }
+    return signature.mimeType;
+  }
+
+  if (looksLikeText(head.subarray(0, 512))) {
+    return TEXT_EXTENSIONS[extension] || "text/plain";
+  }
+
+  return DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Map a detected MIME type to the secret's content type
+ */
+export function secretTypeForMimeType(mimeType: string): SecretType {
+  if (mimeType.startsWith("image/")) return "IMAGE";
+  if (DOCUMENT_MIME_TYPES.has(mimeType)) return "DOCUMENT";
+  return "FILE";
+}
+
+/**
+ * Check whether a file can be shown inline instead of downloaded
+ */
+export function isPreviewableMimeType(mimeType: string): boolean {
+  return PREVIEWABLE_MIME_TYPES.has(mimeType);
+}
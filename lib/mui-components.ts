@@ -30,6 +30,11 @@ export {
   InputAdornment,
   Divider,
   CssBaseline,
+  LinearProgress,
+  Drawer,
+  Tabs,
+  Tab,
+  Checkbox,
 } from "@mui/material";
 
 // Material-UI Icons
@@ -60,6 +65,18 @@ export {
   Error,
   Save,
   ArrowBack,
+  Download,
+  Public,
+  Autorenew,
+  LinkOff,
+  History,
+  RestoreFromTrash,
+  DeleteForever,
+  Folder,
+  CreateNewFolder,
+  LocalOffer,
+  EventAvailable,
+  VpnLock,
 } from "@mui/icons-material";
 
 // Material-UI Styles
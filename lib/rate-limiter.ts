@@ -26,6 +26,8 @@ export const RATE_LIMITS = {
   CREATE_SECRET: { requests: 10, windowMs: 60 * 60 * 1000 }, // 10 secrets per hour
   VIEW_SECRET: { requests: 50, windowMs: 60 * 60 * 1000 }, // 50 views per hour
   SHARE_SECRET: { requests: 20, windowMs: 60 * 60 * 1000 }, // 20 shares per hour
+  UNLOCK_SECRET: { requests: 10, windowMs: 15 * 60 * 1000 }, // 10 password attempts per 15 minutes
+  UNLOCK_SECRET_TOTAL: { requests: 100, windowMs: 15 * 60 * 1000 }, // 100 password attempts per secret per 15 minutes, from all clients
 
   // General API
   API_GENERAL: { requests: 100, windowMs: 60 * 60 * 1000 }, // 100 requests per hour
@@ -136,6 +138,8 @@ export const rateLimiters = {
   createSecret: createRateLimiter("CREATE_SECRET"),
   viewSecret: createRateLimiter("VIEW_SECRET"),
   shareSecret: createRateLimiter("SHARE_SECRET"),
+  unlockSecret: createRateLimiter("UNLOCK_SECRET"),
+  unlockSecretTotal: createRateLimiter("UNLOCK_SECRET_TOTAL"),
   apiGeneral: createRateLimiter("API_GENERAL"),
   apiStrict: createRateLimiter("API_STRICT"),
 };
@@ -226,10 +230,11 @@ export async function burstRateLimit(
 }
 
 /**
- * Reset rate limit for an identifier
+ * Reset rate limit for an identifier, under the same key `checkRateLimit`
+ * counts it
  */
 export async function resetRateLimit(identifier: string): Promise<boolean> {
-  return rateLimitCache.resetLimit(identifier);
+  return rateLimitCache.resetLimit(`rate_limit:${identifier}`);
 }
 
 /**
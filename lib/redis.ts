@@ -9,6 +9,7 @@ import { Redis } from "@upstash/redis";
 import type {
   UserSessionData,
   SecretMetadata,
+  SealedContent,
   AccessLogMetadata,
 } from "./types";
 
@@ -34,6 +35,7 @@ export const CACHE_PREFIXES = {
   RATE_LIMIT: "rate_limit:",
   EMAIL_VERIFICATION: "email_verify:",
   PASSWORD_RESET: "password_reset:",
+  RECIPIENT_VERIFICATION: "recipient_verify:",
   ACCESS_LOG: "access_log:",
 } as const;
 
@@ -46,6 +48,7 @@ export const CACHE_TTL = {
   RATE_LIMIT: 60 * 60, // 1 hour
   EMAIL_VERIFICATION: 60 * 15, // 15 minutes
   PASSWORD_RESET: 60 * 30, // 30 minutes
+  RECIPIENT_VERIFICATION: 60 * 10, // 10 minutes
   ACCESS_ANALYTICS: 60 * 60 * 24, // 24 hours
 } as const;
 
@@ -185,6 +188,28 @@ export const userCache = {
       CACHE_TTL.USER_PROFILE
     );
   },
+
+  // A user's list of active secrets, see `getUserSecrets`
+  async getSecretList(userId: string): Promise<SecretMetadata[] | null> {
+    return cacheGet<SecretMetadata[]>(
+      `${CACHE_PREFIXES.USER}secrets:${userId}`
+    );
+  },
+
+  async setSecretList(
+    userId: string,
+    secrets: SecretMetadata[]
+  ): Promise<boolean> {
+    return cacheSet(
+      `${CACHE_PREFIXES.USER}secrets:${userId}`,
+      secrets,
+      CACHE_TTL.USER_PROFILE
+    );
+  },
+
+  async deleteSecretList(userId: string): Promise<boolean> {
+    return cacheDel(`${CACHE_PREFIXES.USER}secrets:${userId}`);
+  },
 };
 
 /**
@@ -206,11 +231,14 @@ export const secretCache = {
     );
   },
 
-  async getContent(secretId: string): Promise<string | null> {
-    return cacheGet<string>(`${CACHE_PREFIXES.SECRET}content:${secretId}`);
+  // Content is cached sealed, exactly as stored in the database
+  async getContent(secretId: string): Promise<SealedContent | null> {
+    return cacheGet<SealedContent>(
+      `${CACHE_PREFIXES.SECRET}content:${secretId}`
+    );
   },
 
-  async setContent(secretId: string, content: string): Promise<boolean> {
+  async setContent(secretId: string, content: SealedContent): Promise<boolean> {
     return cacheSet(
       `${CACHE_PREFIXES.SECRET}content:${secretId}`,
       content,
@@ -312,6 +340,33 @@ export const emailCache = {
   async deletePasswordResetToken(email: string): Promise<boolean> {
     return cacheDel(`${CACHE_PREFIXES.PASSWORD_RESET}${email}`);
   },
+
+  async setRecipientCode(
+    secretId: string,
+    email: string,
+    code: string
+  ): Promise<boolean> {
+    return cacheSet(
+      `${CACHE_PREFIXES.RECIPIENT_VERIFICATION}${secretId}:${email}`,
+      { code, timestamp: Date.now() },
+      CACHE_TTL.RECIPIENT_VERIFICATION
+    );
+  },
+
+  async getRecipientCode(
+    secretId: string,
+    email: string
+  ): Promise<{ code: string; timestamp: number } | null> {
+    return cacheGet<{ code: string; timestamp: number }>(
+      `${CACHE_PREFIXES.RECIPIENT_VERIFICATION}${secretId}:${email}`
+    );
+  },
+
+  async deleteRecipientCode(secretId: string, email: string): Promise<boolean> {
+    return cacheDel(
+      `${CACHE_PREFIXES.RECIPIENT_VERIFICATION}${secretId}:${email}`
+    );
+  },
 };
 
 /**
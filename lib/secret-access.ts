@@ -0,0 +1,476 @@
+/**
+ * Secret Access Checks
+ *
+ * Checks a viewer has to pass before a secret's content is released,
+ * shared by the tRPC procedures and the file download route. Failures
+ * are TRPCErrors so route handlers can map them to HTTP statuses.
+ */
+
+import { randomBytes } from "crypto";
+import { TRPCError } from "@trpc/server";
+import {
+  type AccessAction,
+  type Permission,
+  type Prisma,
+  type Secret,
+} from "@prisma/client";
+import { db } from "./db";
+import { hashPassword, verifyPassword, verifyRecipientToken } from "./auth";
+import { rateLimiters, resetRateLimit } from "./rate-limiter";
+import { secretCache } from "./redis";
+import { isIpAllowed } from "./ip-allowlist";
+
+type SecretAvailability = Pick<
+  Secret,
+  "expiresAt" | "maxViews" | "currentViews" | "isActive"
+>;
+
+/**
+ * Reject secrets that can no longer be viewed by the given grant
+ */
+export function assertSecretAvailable<T extends SecretAvailability>(
+  secret: T | null,
+  grant?: SecretGrant | null
+): asserts secret is T {
+  if (!secret) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+  }
+
+  // Check if secret is expired or exceeded max views
+  const now = new Date();
+  if (secret.expiresAt && now > secret.expiresAt) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Secret has expired" });
+  }
+
+  // Recipients viewing through a share use its budget instead
+  if (
+    !grant?.budget &&
+    secret.maxViews &&
+    secret.currentViews >= secret.maxViews
+  ) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Secret has reached maximum views",
+    });
+  }
+
+  if (!secret.isActive) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Secret is not active" });
+  }
+}
+
+/**
+ * Reject secrets scheduled to become available later. Their metadata can
+ * still be previewed, so viewers can count down to `activatesAt`.
+ */
+export function assertSecretActivated(secret: {
+  activatesAt: Date | string | null;
+}): void {
+  // Cached metadata holds dates as strings
+  const activatesAt = secret.activatesAt && new Date(secret.activatesAt);
+
+  if (activatesAt && new Date() < activatesAt) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Secret is not available until ${activatesAt.toISOString()}`,
+    });
+  }
+}
+
+export interface AccessAttempt {
+  userId?: string | null;
+  sharedSecretId?: string | null;
+  ipAddress: string; // From trusted proxy headers, see lib/client-ip.ts
+  userAgent: string;
+  action?: AccessAction;
+}
+
+/**
+ * Reject clients outside a secret's IP allowlist, owners included. The
+ * attempt is logged with the reason it was denied before throwing.
+ */
+export async function assertIpAllowed(
+  secret: Pick<Secret, "id" | "allowedCidrs">,
+  attempt: AccessAttempt
+): Promise<void> {
+  if (isIpAllowed(attempt.ipAddress, secret.allowedCidrs)) return;
+
+  await db.accessLog.create({
+    data: {
+      secretId: secret.id,
+      ...attempt,
+      deniedReason:
+        attempt.ipAddress === "unknown"
+          ? "Client IP address unknown"
+          : "Client IP address not in allowlist",
+    },
+  });
+
+  throw new TRPCError({
+    code: "FORBIDDEN",
+    message: "This secret can't be opened from your network",
+  });
+}
+
+/**
+ * Verify the password of a protected secret, rate limited per client and,
+ * more loosely, per secret. Does nothing for secrets without a password.
+ */
+export async function verifySecretPassword(
+  secret: Pick<Secret, "id" | "password">,
+  password: string | undefined,
+  ipAddress: string
+): Promise<void> {
+  if (!secret.password) return;
+
+  // Throttle guesses per client, so one client can't lock everyone else
+  // out, with a looser cap across all clients as a backstop
+  const clientKey = `secret:${secret.id}:ip:${ipAddress}`;
+  const [clientLimit, totalLimit] = await Promise.all([
+    rateLimiters.unlockSecret(clientKey),
+    rateLimiters.unlockSecretTotal(`secret:${secret.id}`),
+  ]);
+  if (!clientLimit.success || !totalLimit.success) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many password attempts. Please try again later.",
+    });
+  }
+
+  if (!password) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Password required",
+    });
+  }
+
+  // Passwords saved before hashing was introduced are still plaintext
+  const isLegacyPassword = !secret.password.startsWith("$2");
+  const isValid = isLegacyPassword
+    ? password === secret.password
+    : await verifyPassword(password, secret.password);
+
+  if (!isValid) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Incorrect password",
+    });
+  }
+
+  // Only wrong guesses count against the client
+  await resetRateLimit(clientKey);
+
+  if (isLegacyPassword) {
+    await db.secret.update({
+      where: { id: secret.id },
+      data: { password: await hashPassword(password) },
+    });
+  }
+}
+
+// Each permission includes the ones ranked below it
+const PERMISSION_RANK: Record<Permission, number> = {
+  VIEW: 0,
+  DOWNLOAD: 1,
+  EDIT: 2,
+};
+
+// The share columns access decisions depend on
+const shareGrantSelect = {
+  id: true,
+  permissions: true,
+  maxViews: true,
+  currentViews: true,
+  expiresAt: true,
+  revokedAt: true,
+} satisfies Prisma.SharedSecretSelect;
+
+type ShareGrantRecord = Prisma.SharedSecretGetPayload<{
+  select: typeof shareGrantSelect;
+}>;
+
+export type ShareBudget = Pick<
+  ShareGrantRecord,
+  "maxViews" | "currentViews" | "expiresAt"
+>;
+
+export interface SecretGrant {
+  permission: Permission;
+  shareId: string | null; // Null unless access comes from a share
+  budget: ShareBudget | null; // Views through a share count against it
+}
+
+export interface SecretViewer {
+  userId?: string | null;
+  recipientToken?: string; // From `secret.verifyRecipient`
+  linkToken?: string; // A recipient's own share link
+}
+
+/**
+ * Check whether a granted permission covers the required one
+ */
+export function hasPermission(
+  granted: Permission,
+  required: Permission
+): boolean {
+  return PERMISSION_RANK[granted] >= PERMISSION_RANK[required];
+}
+
+/**
+ * Generate the public slug a secret's links are routed by. It is kept
+ * apart from the database ID so links can be rotated or revoked.
+ */
+export function generateSecretSlug(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Generate the access token for a recipient's share link
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// Reject shares that were revoked or used up, then grant their permission
+function grantFromShare(share: ShareGrantRecord): SecretGrant {
+  if (share.revokedAt) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This link has been revoked",
+    });
+  }
+
+  if (share.expiresAt && new Date() > share.expiresAt) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "This link has expired",
+    });
+  }
+
+  if (share.maxViews && share.currentViews >= share.maxViews) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "This link has reached maximum views",
+    });
+  }
+
+  return {
+    permission: share.permissions,
+    shareId: share.id,
+    budget: {
+      maxViews: share.maxViews,
+      currentViews: share.currentViews,
+      expiresAt: share.expiresAt,
+    },
+  };
+}
+
+/**
+ * Resolve what a signed-in user may do with a secret: owners have full
+ * access, recipients have the permission it was shared with. Shares made
+ * to an email before its owner signed up are matched on the email.
+ */
+export async function getSecretGrant(
+  secret: Pick<Secret, "id" | "createdById">,
+  userId: string | null | undefined
+): Promise<SecretGrant | null> {
+  if (!userId) return null;
+
+  if (secret.createdById === userId) {
+    return { permission: "EDIT", shareId: null, budget: null };
+  }
+
+  // A share's email only identifies the user once they have verified it
+  const dbUser = await db.user.findUnique({
+    where: { id: userId },
+    select: { email: true, emailVerified: true },
+  });
+
+  if (!dbUser?.emailVerified) return null;
+
+  const share = await db.sharedSecret.findFirst({
+    where: {
+      secretId: secret.id,
+      OR: [{ userId }, { email: dbUser.email }],
+    },
+    select: shareGrantSelect,
+    orderBy: { sharedAt: "asc" },
+  });
+
+  return share ? grantFromShare(share) : null;
+}
+
+/**
+ * Reject signed-in users who may not edit a secret: only its owner and
+ * recipients shared with EDIT permission may
+ */
+export async function assertSecretEditor(
+  secret: Pick<Secret, "id" | "createdById">,
+  userId: string
+): Promise<SecretGrant> {
+  const grant = await getSecretGrant(secret, userId);
+
+  if (!grant || !hasPermission(grant.permission, "EDIT")) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You don't have permission to edit this secret",
+    });
+  }
+
+  return grant;
+}
+
+/**
+ * Find the share made to an email that has no account yet
+ */
+export function findRecipientShare(secretId: string, email: string) {
+  return db.sharedSecret.findFirst({
+    where: {
+      secretId,
+      userId: null,
+      email: { equals: email, mode: "insensitive" },
+    },
+    select: { id: true, secretId: true, email: true },
+  });
+}
+
+/**
+ * Resolve the share of a recipient without an account from the token they
+ * received after verifying their email (`secret.verifyRecipient`)
+ */
+export async function getRecipientGrant(
+  secret: Pick<Secret, "id">,
+  recipientToken: string | undefined
+): Promise<SecretGrant | null> {
+  const payload = recipientToken ? verifyRecipientToken(recipientToken) : null;
+  if (!payload || payload.secretId !== secret.id) return null;
+
+  // The share may have been removed since the token was issued
+  const share = await db.sharedSecret.findFirst({
+    where: { id: payload.shareId, secretId: secret.id, email: payload.email },
+    select: shareGrantSelect,
+  });
+
+  return share ? grantFromShare(share) : null;
+}
+
+/**
+ * Resolve the share behind a recipient's own link
+ */
+export async function getLinkGrant(
+  secret: Pick<Secret, "id">,
+  linkToken: string | undefined
+): Promise<SecretGrant | null> {
+  if (!linkToken) return null;
+
+  const share = await db.sharedSecret.findFirst({
+    where: { accessToken: linkToken, secretId: secret.id },
+    select: shareGrantSelect,
+  });
+
+  return share ? grantFromShare(share) : null;
+}
+
+/**
+ * Reject viewers who may not see a secret. Public secrets give anyone with
+ * the link VIEW access; others are limited to the owner and recipients,
+ * who are signed in, hold a verified recipient token or use their own
+ * share link. A recipient link is checked first so its budget applies.
+ */
+export async function assertSecretAccess(
+  secret: Pick<Secret, "id" | "createdById" | "isPublic">,
+  viewer: SecretViewer
+): Promise<SecretGrant> {
+  const grant =
+    (await getLinkGrant(secret, viewer.linkToken)) ??
+    (await getSecretGrant(secret, viewer.userId)) ??
+    (await getRecipientGrant(secret, viewer.recipientToken));
+  if (grant) return grant;
+
+  if (viewer.linkToken) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Link not found" });
+  }
+
+  if (secret.isPublic) {
+    return { permission: "VIEW", shareId: null, budget: null };
+  }
+
+  if (!viewer.userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Sign in or verify your email to view this secret",
+    });
+  }
+
+  throw new TRPCError({
+    code: "FORBIDDEN",
+    message: "You don't have access to this secret",
+  });
+}
+
+/**
+ * Drop a secret's cached copies after changing it. Cached metadata decides
+ * access, so it must never outlive a change to the settings it holds.
+ */
+export function invalidateSecretAccess(secretId: string): Promise<void> {
+  return secretCache.deleteSecret(secretId);
+}
+
+/**
+ * Record a recipient's first access on their share
+ */
+export async function recordShareAccess(
+  client: Prisma.TransactionClient,
+  grant: Pick<SecretGrant, "shareId"> | null
+): Promise<void> {
+  if (!grant?.shareId) return;
+
+  await client.sharedSecret.updateMany({
+    where: { id: grant.shareId, accessedAt: null },
+    data: { accessedAt: new Date() },
+  });
+}
+
+/**
+ * Share a secret with each email address. Every recipient gets their own
+ * link and view budget, which starts from the secret's limit unless one is
+ * given. Sharing again with a recipient updates their share and un-revokes it.
+ */
+export function shareSecret(
+  client: Prisma.TransactionClient,
+  secret: Pick<Secret, "id" | "maxViews">,
+  options: {
+    emails: string[];
+    permission: Permission;
+    maxViews?: number;
+    expiresAt?: Date;
+  }
+) {
+  const { permission, maxViews, expiresAt } = options;
+
+  return Promise.all(
+    options.emails.map(async (email) => {
+      const user = await client.user.findUnique({ where: { email } });
+
+      return client.sharedSecret.upsert({
+        where: { secretId_email: { secretId: secret.id, email } },
+        create: {
+          secretId: secret.id,
+          userId: user?.id,
+          email,
+          permissions: permission,
+          accessToken: generateShareToken(),
+          maxViews: maxViews ?? secret.maxViews,
+          expiresAt,
+        },
+        update: {
+          userId: user?.id,
+          permissions: permission,
+          maxViews,
+          expiresAt,
+          revokedAt: null,
+        },
+      });
+    })
+  );
+}
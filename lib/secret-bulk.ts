@@ -0,0 +1,79 @@
+/**
+ * Bulk Operations
+ *
+ * Dashboard actions applied to many secrets at once. Every ID is checked
+ * for ownership and handled on its own, so one failure doesn't stop the
+ * others, and callers get a result for each ID.
+ */
+
+import { AuditAction, type Secret } from "@prisma/client";
+import { db } from "./db";
+import { invalidateSecretAccess } from "./secret-access";
+import type { BulkItemResult } from "./types";
+
+/**
+ * Run `action` for each of the user's active secrets among `ids`, one after
+ * another. IDs of other users' or deleted secrets fail with "Secret not found".
+ */
+export async function forEachOwnedSecret(
+  userId: string,
+  ids: string[],
+  action: (secret: Secret) => Promise<void>
+): Promise<BulkItemResult[]> {
+  const uniqueIds = [...new Set(ids)];
+  const secrets = await db.secret.findMany({
+    where: { id: { in: uniqueIds }, createdById: userId, isActive: true },
+  });
+  const byId = new Map(secrets.map((secret) => [secret.id, secret]));
+  const results: BulkItemResult[] = [];
+
+  for (const id of uniqueIds) {
+    const secret = byId.get(id);
+
+    if (!secret) {
+      results.push({ id, success: false, error: "Secret not found" });
+      continue;
+    }
+
+    try {
+      await action(secret);
+      results.push({ id, success: true });
+    } catch (error) {
+      results.push({
+        id,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Change a secret's expiry on behalf of its owner. Like an update, this
+ * bumps the version and is recorded in the audit log.
+ */
+export async function setSecretExpiry(
+  secret: Pick<Secret, "id">,
+  userId: string,
+  expiresAt: Date
+): Promise<void> {
+  await db.$transaction(async (tx) => {
+    await tx.secret.update({
+      where: { id: secret.id },
+      data: { expiresAt, version: { increment: 1 } },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        secretId: secret.id,
+        userId,
+        action: AuditAction.SECRET_UPDATED,
+        details: { fields: ["expiresAt"], sharedSecretId: null },
+      },
+    });
+  });
+
+  await invalidateSecretAccess(secret.id);
+}
@@ -0,0 +1,84 @@
+/**
+ * Burn After Reading
+ *
+ * Burning a secret wipes everything sensitive from its row and leaves a
+ * tombstone (id, title, owner and counters) so access logs still resolve.
+ * Its previous versions are deleted along with it. Dropping the wrapped
+ * data keys makes any copy of the ciphertext, such as a backup or a
+ * leftover file chunk, unreadable as well.
+ */
+
+import { type Prisma } from "@prisma/client";
+import { db } from "./db";
+import { secretCache } from "./redis";
+import { deleteFileBlobs } from "./secret-files";
+
+export interface BurnedSecret {
+  secretId: string;
+  fileIds: string[]; // Files whose blobs are deleted after commit
+}
+
+/**
+ * Column values that replace a secret's sensitive data when it is burned
+ */
+export function burnedSecretData() {
+  return {
+    content: "",
+    dataKey: null,
+    keyId: null,
+    iv: null,
+    password: null,
+    salt: null,
+    fileName: null,
+    isActive: false,
+    burnedAt: new Date(),
+  } satisfies Prisma.SecretUpdateManyMutationInput;
+}
+
+/**
+ * Wipe a secret's row, history and file keys inside a transaction. Only burns
+ * while `guard` still matches; returns null if it no longer does.
+ * Call `releaseBurnedSecret` once the transaction has committed.
+ */
+export async function wipeSecret(
+  tx: Prisma.TransactionClient,
+  secretId: string,
+  guard: Prisma.SecretWhereInput = {}
+): Promise<BurnedSecret | null> {
+  const { count } = await tx.secret.updateMany({
+    where: { ...guard, id: secretId },
+    data: burnedSecretData(),
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const files = await tx.secretFile.findMany({
+    where: { secretId },
+    select: { id: true },
+  });
+  await tx.secretFile.deleteMany({ where: { secretId } });
+  await tx.secretVersion.deleteMany({ where: { secretId } });
+
+  return { secretId, fileIds: files.map((file) => file.id) };
+}
+
+/**
+ * Remove what a committed burn left outside the database
+ */
+export async function releaseBurnedSecret(burned: BurnedSecret): Promise<void> {
+  await secretCache.deleteSecret(burned.secretId);
+  await Promise.all(burned.fileIds.map((fileId) => deleteFileBlobs(fileId)));
+}
+
+/**
+ * Burn a secret outright: wipe it, drop it from the cache and delete its files
+ */
+export async function burnSecret(secretId: string): Promise<void> {
+  const burned = await db.$transaction((tx) => wipeSecret(tx, secretId));
+
+  if (burned) {
+    await releaseBurnedSecret(burned);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Secret Files
+ *
+ * Chunked, resumable uploads for file secrets. Every chunk is encrypted
+ * with the file's own data key and stored as a separate blob under
+ * `files/{fileId}/{index}`, so an interrupted upload only resends the
+ * chunks the server has not acknowledged.
+ */
+
+import { type SecretFile } from "@prisma/client";
+import { db } from "./db";
+import { getBlobStore } from "./blob-store";
+import { createDataKey, sealBuffer, openBuffer } from "./encryption";
+import { detectMimeType } from "./mime";
+import { FILE_UPLOAD_LIMITS } from "./constants";
+
+function chunkKey(fileId: string, index: number): string {
+  return `files/${fileId}/${index}`;
+}
+
+/**
+ * Register a new upload and generate its data key
+ */
+export async function startUpload(
+  userId: string,
+  input: { fileName: string; size: number }
+): Promise<SecretFile> {
+  const chunkSize = FILE_UPLOAD_LIMITS.CHUNK_SIZE;
+
+  return db.secretFile.create({
+    data: {
+      createdById: userId,
+      fileName: input.fileName,
+      size: input.size,
+      chunkSize,
+      chunkCount: Math.ceil(input.size / chunkSize),
+      ...createDataKey(),
+    },
+  });
+}
+
+/**
+ * Check a chunk against the upload's layout. Returns an error message, or
+ * null if the chunk is valid. Every chunk but the last must be full size.
+ */
+export function validateChunk(
+  file: SecretFile,
+  index: number,
+  length: number
+): string | null {
+  if (!Number.isInteger(index) || index < 0 || index >= file.chunkCount) {
+    return `Chunk index must be between 0 and ${file.chunkCount - 1}`;
+  }
+
+  const expected =
+    index === file.chunkCount - 1
+      ? file.size - index * file.chunkSize
+      : file.chunkSize;
+
+  if (length !== expected) {
+    return `Chunk ${index} must be ${expected} bytes, got ${length}`;
+  }
+
+  return null;
+}
+
+/**
+ * Encrypt and store one chunk. Re-sending a chunk simply overwrites it.
+ */
+export async function storeChunk(
+  file: SecretFile,
+  index: number,
+  data: Buffer
+): Promise<void> {
+  await getBlobStore().put(chunkKey(file.id, index), sealBuffer(data, file));
+
+  // The first chunk carries the magic bytes used to identify the file type
+  if (index === 0) {
+    await db.secretFile.update({
+      where: { id: file.id },
+      data: { mimeType: detectMimeType(data, file.fileName) },
+    });
+  }
+
+  await db.secretFile.updateMany({
+    where: { id: file.id, NOT: { receivedChunks: { has: index } } },
+    data: { receivedChunks: { push: index } },
+  });
+}
+
+/**
+ * Whether every chunk of the upload has been received
+ */
+export function isUploadComplete(
+  file: Pick<SecretFile, "receivedChunks" | "chunkCount">
+): boolean {
+  return new Set(file.receivedChunks).size === file.chunkCount;
+}
+
+/**
+ * Decrypt a file chunk by chunk, in order
+ */
+export async function* readFileChunks(
+  file: SecretFile
+): AsyncGenerator<Buffer> {
+  const store = getBlobStore();
+
+  for (let index = 0; index < file.chunkCount; index++) {
+    yield openBuffer(await store.get(chunkKey(file.id, index)), file);
+  }
+}
+
+/**
+ * Delete all stored chunks of a file
+ */
+export async function deleteFileBlobs(fileId: string): Promise<void> {
+  await getBlobStore().deletePrefix(`files/${fileId}/`);
+}
+
+/**
+ * Delete uploads that were never attached to a secret
+ */
+export async function purgeAbandonedUploads(): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - FILE_UPLOAD_LIMITS.ABANDONED_AFTER_HOURS * 60 * 60 * 1000
+  );
+
+  const abandoned = await db.secretFile.findMany({
+    where: { secretId: null, createdAt: { lt: cutoff } },
+    select: { id: true },
+  });
+
+  let purged = 0;
+
+  for (const file of abandoned) {
+    // Drop the row (and its data key) first so the blobs are unreadable.
+    // The guard skips uploads attached to a secret since the lookup.
+    const { count } = await db.secretFile.deleteMany({
+      where: { id: file.id, secretId: null },
+    });
+
+    if (count > 0) {
+      await deleteFileBlobs(file.id);
+      purged++;
+    }
+  }
+
+  return purged;
+}
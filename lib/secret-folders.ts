@@ -0,0 +1,69 @@
+/**
+ * Secret Folders
+ *
+ * Owners organize their secrets into nested folders. Folders are private
+ * to their owner: recipients and the viewer page never see them. Deleting
+ * a folder moves its secrets and subfolders up to its parent.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { db } from "./db";
+
+export interface FolderNode {
+  id: string;
+  parentId: string | null;
+}
+
+/**
+ * Throw NOT_FOUND unless the folder exists and belongs to the user
+ */
+export async function assertOwnFolder(
+  client: Prisma.TransactionClient,
+  folderId: string,
+  userId: string
+) {
+  const folder = await client.folder.findFirst({
+    where: { id: folderId, createdById: userId },
+  });
+
+  if (!folder) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Folder not found" });
+  }
+
+  return folder;
+}
+
+/**
+ * IDs of a folder and every folder nested in it
+ */
+export function collectSubtreeIds(
+  folders: FolderNode[],
+  rootId: string
+): string[] {
+  const ids = [rootId];
+
+  // `ids` grows while it is walked, so each level is visited in turn
+  for (let i = 0; i < ids.length; i++) {
+    for (const folder of folders) {
+      if (folder.parentId === ids[i]) ids.push(folder.id);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * IDs of one of the user's folders and every folder nested in it
+ */
+export async function getSubtreeIds(
+  userId: string,
+  folderId: string
+): Promise<string[]> {
+  const folders = await db.folder.findMany({
+    where: { createdById: userId },
+    select: { id: true, parentId: true },
+  });
+
+  return collectSubtreeIds(folders, folderId);
+}
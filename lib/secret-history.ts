@@ -0,0 +1,95 @@
+/**
+ * Secret Version History
+ *
+ * Before an update replaces a secret's title, description or content, the
+ * previous values are kept as a `SecretVersion`, still encrypted under
+ * their own data key. Only the newest `SECRET_HISTORY_DEPTH` versions are
+ * kept per secret. Burning a secret deletes its history with it.
+ */
+
+import { type Prisma, type Secret } from "@prisma/client";
+import { sealContent } from "./encryption";
+import { SECRET_HISTORY_LIMITS } from "./constants";
+
+/**
+ * Fields whose previous values are kept in the history
+ */
+export const VERSIONED_FIELDS = ["title", "description", "content"] as const;
+
+type VersionedSecret = Pick<
+  Secret,
+  | "id"
+  | "version"
+  | "title"
+  | "description"
+  | "content"
+  | "iv"
+  | "dataKey"
+  | "keyId"
+>;
+
+/**
+ * Number of prior versions kept per secret; 0 turns history off
+ */
+export function getHistoryDepth(): number {
+  const depth = parseInt(process.env.SECRET_HISTORY_DEPTH ?? "", 10);
+  return Number.isNaN(depth) || depth < 0
+    ? SECRET_HISTORY_LIMITS.DEFAULT_DEPTH
+    : depth;
+}
+
+/**
+ * Whether a change touches any versioned field
+ */
+export function isVersionedChange(changedFields: string[]): boolean {
+  return VERSIONED_FIELDS.some((field) => changedFields.includes(field));
+}
+
+/**
+ * Keep a secret's current values as a version before they are replaced,
+ * then drop the versions beyond the history depth. Call inside the
+ * transaction that makes the change.
+ */
+export async function snapshotSecret(
+  tx: Prisma.TransactionClient,
+  secret: VersionedSecret,
+  change: { changedById: string; changedFields: string[] }
+): Promise<void> {
+  const depth = getHistoryDepth();
+  if (depth === 0) return;
+
+  // Legacy rows stored in plaintext are sealed on their way into history
+  const sealed =
+    secret.dataKey && secret.keyId
+      ? {
+          content: secret.content,
+          dataKey: secret.dataKey,
+          keyId: secret.keyId,
+        }
+      : sealContent(secret.content);
+
+  await tx.secretVersion.create({
+    data: {
+      secretId: secret.id,
+      version: secret.version,
+      title: secret.title,
+      description: secret.description,
+      iv: secret.iv,
+      ...sealed,
+      ...change,
+    },
+  });
+
+  const expired = await tx.secretVersion.findMany({
+    where: { secretId: secret.id },
+    orderBy: { version: "desc" },
+    skip: depth,
+    select: { id: true },
+  });
+
+  if (expired.length > 0) {
+    await tx.secretVersion.deleteMany({
+      where: { id: { in: expired.map((version) => version.id) } },
+    });
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Secret Renewal
+ *
+ * Owners can push out the expiry or raise the view limit of a secret that is
+ * about to expire, or has expired or used up its views but hasn't been
+ * burned yet. Neither renewals nor edits can keep a secret alive for longer
+ * than the maximum lifetime, counted from when it was created.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { AuditAction, type Prisma, type Secret } from "@prisma/client";
+import { db } from "./db";
+import { invalidateSecretAccess } from "./secret-access";
+import { MAX_VIEWS_LIMITS, RENEWAL_LIMITS } from "./constants";
+
+export interface SecretRenewal {
+  expiresAt?: Date;
+  maxViews?: number;
+}
+
+/**
+ * Maximum lifetime of a secret in days
+ */
+export function getMaxLifetimeDays(): number {
+  const days = parseInt(process.env.SECRET_MAX_LIFETIME_DAYS ?? "", 10);
+  return Number.isNaN(days) || days < 1
+    ? RENEWAL_LIMITS.DEFAULT_MAX_LIFETIME_DAYS
+    : days;
+}
+
+/**
+ * The latest a secret created at `createdAt` can be renewed until
+ */
+export function getLatestExpiry(createdAt: Date): Date {
+  return new Date(
+    createdAt.getTime() + getMaxLifetimeDays() * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Throw unless `expiresAt` is within the lifetime of a secret created at
+ * `createdAt`
+ */
+export function assertWithinLifetime(expiresAt: Date, createdAt: Date) {
+  const latestExpiry = getLatestExpiry(createdAt);
+
+  if (expiresAt > latestExpiry) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Secrets can live at most ${getMaxLifetimeDays()} days, so this one can't expire after ${latestExpiry.toISOString()}`,
+    });
+  }
+}
+
+/**
+ * Throw if a view limit of `maxViews` would allow too many more views
+ */
+export function assertViewHeadroom(maxViews: number, currentViews: number) {
+  if (maxViews - currentViews > MAX_VIEWS_LIMITS.MAX) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `At most ${MAX_VIEWS_LIMITS.MAX} more views can be allowed`,
+    });
+  }
+}
+
+// Active, unburned secrets that expire soon, have expired or used up their
+// views. The sweeper keeps used-up secrets while recipients have views left.
+function renewableWhere(userId: string, now: Date): Prisma.SecretWhereInput {
+  const soon = new Date(
+    now.getTime() + RENEWAL_LIMITS.EXPIRING_SOON_HOURS * 60 * 60 * 1000
+  );
+
+  return {
+    createdById: userId,
+    isActive: true,
+    burnedAt: null,
+    OR: [
+      { expiresAt: { lte: soon } },
+      {
+        maxViews: { not: null },
+        currentViews: { gte: db.secret.fields.maxViews },
+      },
+    ],
+  };
+}
+
+/**
+ * List a user's secrets that need renewing, soonest expiry first
+ */
+export async function listRenewableSecrets(userId: string, limit: number) {
+  const secrets = await db.secret.findMany({
+    where: renewableWhere(userId, new Date()),
+    select: {
+      id: true,
+      title: true,
+      createdAt: true,
+      expiresAt: true,
+      maxViews: true,
+      currentViews: true,
+    },
+    orderBy: { expiresAt: { sort: "asc", nulls: "last" } },
+    take: limit,
+  });
+
+  return secrets.map((secret) => ({
+    ...secret,
+    latestExpiry: getLatestExpiry(secret.createdAt),
+  }));
+}
+
+/**
+ * Change the expiry or view limit of a user's secret. Throws if it is burned,
+ * deleted, or the change would not leave it viewable within its lifetime.
+ */
+export async function renewSecret(
+  secretId: string,
+  userId: string,
+  renewal: SecretRenewal
+): Promise<Secret> {
+  const secret = await db.secret.findUnique({ where: { id: secretId } });
+
+  if (!secret || secret.createdById !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+  }
+
+  if (secret.burnedAt || !secret.isActive) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: secret.burnedAt
+        ? "Secret has been burned"
+        : "Secret is not active",
+    });
+  }
+
+  if (renewal.expiresAt) {
+    if (renewal.expiresAt <= new Date()) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The new expiry must be in the future",
+      });
+    }
+
+    assertWithinLifetime(renewal.expiresAt, secret.createdAt);
+  }
+
+  if (renewal.maxViews !== undefined) {
+    if (renewal.maxViews <= secret.currentViews) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The view limit must be above the views already used",
+      });
+    }
+
+    assertViewHeadroom(renewal.maxViews, secret.currentViews);
+  }
+
+  const expiresAt = renewal.expiresAt ?? secret.expiresAt;
+  const maxViews = renewal.maxViews ?? secret.maxViews;
+
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Secret has expired, give it a new expiry as well",
+    });
+  }
+
+  if (maxViews && secret.currentViews >= maxViews) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Secret has reached maximum views, raise its view limit as well",
+    });
+  }
+
+  const fields = Object.keys(renewal).filter(
+    (field) => renewal[field as keyof SecretRenewal] !== undefined
+  );
+
+  const renewed = await db.$transaction(async (tx) => {
+    // The sweeper may have burned it since it was read
+    const { count } = await tx.secret.updateMany({
+      where: { id: secretId, isActive: true, burnedAt: null },
+      data: { ...renewal, version: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Secret has been burned",
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        secretId,
+        userId,
+        action: AuditAction.SECRET_UPDATED,
+        details: { fields, sharedSecretId: null },
+      },
+    });
+
+    return tx.secret.findUniqueOrThrow({ where: { id: secretId } });
+  });
+
+  await invalidateSecretAccess(secretId);
+
+  return renewed;
+}
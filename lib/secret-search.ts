@@ -0,0 +1,309 @@
+/**
+ * Secret Search
+ *
+ * Server-side search over a user's active secrets for the dashboard, with
+ * keyset pagination: the cursor is the id of the last secret on the previous
+ * page and the next page continues after that secret's position in the sort
+ * order, so secrets created or deleted meanwhile don't shift the pages.
+ *
+ * Full-text search ranks matches from the `searchVector` index kept by
+ * prisma/search-index.sql. Its pages are offsets, since ranks are no stable
+ * keys, and matched terms are highlighted with `SEARCH_HIGHLIGHT` markers.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+import { db } from "./db";
+import { PAGINATION_LIMITS, SEARCH_HIGHLIGHT } from "./constants";
+import { getSubtreeIds } from "./secret-folders";
+import type {
+  Page,
+  SearchHighlight,
+  SearchOptions,
+  SecretFilters,
+  SecretSortField,
+  SortDirection,
+  TextSearchOptions,
+} from "./types";
+
+type SortValue = string | number | Date | null;
+
+async function filtersWhere(
+  userId: string,
+  filters: SecretFilters,
+  now: Date
+): Promise<Prisma.SecretWhereInput[]> {
+  const where: Prisma.SecretWhereInput[] = [];
+
+  if (filters.isExpired !== undefined) {
+    where.push(
+      filters.isExpired
+        ? { expiresAt: { lte: now } }
+        : { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+    );
+  }
+
+  if (filters.hasPassword !== undefined) {
+    where.push({ password: filters.hasPassword ? { not: null } : null });
+  }
+
+  if (filters.contentType) {
+    where.push({ contentType: filters.contentType });
+  }
+
+  if (filters.createdAfter || filters.createdBefore) {
+    where.push({
+      createdAt: { gte: filters.createdAfter, lte: filters.createdBefore },
+    });
+  }
+
+  if (filters.folderId === null) {
+    where.push({ folderId: null });
+  } else if (filters.folderId) {
+    where.push({
+      folderId: { in: await getSubtreeIds(userId, filters.folderId) },
+    });
+  }
+
+  if (filters.tag) {
+    where.push({ tags: { has: filters.tag } });
+  }
+
+  return where;
+}
+
+// The same filters as `filtersWhere`, for raw queries on "secrets" s
+async function filtersSql(
+  userId: string,
+  filters: SecretFilters,
+  now: Date
+): Promise<Prisma.Sql[]> {
+  const where: Prisma.Sql[] = [];
+
+  if (filters.isExpired !== undefined) {
+    where.push(
+      filters.isExpired
+        ? Prisma.sql`s."expiresAt" <= ${now}`
+        : Prisma.sql`(s."expiresAt" IS NULL OR s."expiresAt" > ${now})`
+    );
+  }
+
+  if (filters.hasPassword !== undefined) {
+    where.push(
+      filters.hasPassword
+        ? Prisma.sql`s."password" IS NOT NULL`
+        : Prisma.sql`s."password" IS NULL`
+    );
+  }
+
+  if (filters.contentType) {
+    where.push(
+      Prisma.sql`s."contentType" = ${filters.contentType}::"SecretType"`
+    );
+  }
+
+  if (filters.createdAfter) {
+    where.push(Prisma.sql`s."createdAt" >= ${filters.createdAfter}`);
+  }
+
+  if (filters.createdBefore) {
+    where.push(Prisma.sql`s."createdAt" <= ${filters.createdBefore}`);
+  }
+
+  if (filters.folderId === null) {
+    where.push(Prisma.sql`s."folderId" IS NULL`);
+  } else if (filters.folderId) {
+    const folderIds = await getSubtreeIds(userId, filters.folderId);
+    where.push(Prisma.sql`s."folderId" IN (${Prisma.join(folderIds)})`);
+  }
+
+  if (filters.tag) {
+    where.push(Prisma.sql`${filters.tag} = ANY(s."tags")`);
+  }
+
+  return where;
+}
+
+// Ties are broken by id. Secrets without an expiry sort last either way.
+function orderByFor(
+  field: SecretSortField,
+  direction: SortDirection
+): Prisma.SecretOrderByWithRelationInput[] {
+  return [
+    field === "expiresAt"
+      ? { expiresAt: { sort: direction, nulls: "last" } }
+      : { [field]: direction },
+    { id: direction },
+  ];
+}
+
+// Secrets that come after the cursor secret in the order of `orderByFor`.
+// Only `expiresAt` can be null, and nulls sort last.
+function afterCursor(
+  field: SecretSortField,
+  direction: SortDirection,
+  value: SortValue,
+  id: string
+): Prisma.SecretWhereInput {
+  const beyond = direction === "asc" ? "gt" : "lt";
+  const tieBreak = { id: { [beyond]: id } };
+
+  if (value === null) {
+    return { [field]: null, ...tieBreak };
+  }
+
+  return {
+    OR: [
+      { [field]: { [beyond]: value } },
+      { [field]: value, ...tieBreak },
+      ...(field === "expiresAt" ? [{ expiresAt: null }] : []),
+    ],
+  };
+}
+
+/**
+ * Find a user's active secrets matching the search, one page at a time.
+ * The query matches title and description, case-insensitively.
+ */
+export async function searchSecrets(userId: string, options: SearchOptions) {
+  const {
+    query,
+    sortField = "createdAt",
+    sortDirection = "desc",
+    filters = {},
+    cursor,
+  } = options;
+  const limit = Math.min(
+    options.limit ?? PAGINATION_LIMITS.DEFAULT_LIMIT,
+    PAGINATION_LIMITS.MAX_LIMIT
+  );
+
+  const conditions: Prisma.SecretWhereInput[] = [
+    { createdById: userId, isActive: true },
+    ...(await filtersWhere(userId, filters, new Date())),
+  ];
+
+  const text = query?.trim();
+  if (text) {
+    conditions.push({
+      OR: [
+        { title: { contains: text, mode: "insensitive" } },
+        { description: { contains: text, mode: "insensitive" } },
+      ],
+    });
+  }
+
+  if (cursor) {
+    const last = await db.secret.findFirst({
+      where: { id: cursor, createdById: userId },
+      select: {
+        title: true,
+        createdAt: true,
+        expiresAt: true,
+        currentViews: true,
+      },
+    });
+
+    if (!last) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+    }
+
+    conditions.push(
+      afterCursor(sortField, sortDirection, last[sortField], cursor)
+    );
+  }
+
+  // One extra row tells whether there is another page
+  const secrets = await db.secret.findMany({
+    where: { AND: conditions },
+    omit: { content: true, dataKey: true, keyId: true },
+    orderBy: orderByFor(sortField, sortDirection),
+    take: limit + 1,
+  });
+
+  const hasMore = secrets.length > limit;
+  const items = hasMore ? secrets.slice(0, limit) : secrets;
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  } satisfies Page<(typeof items)[number]>;
+}
+
+const HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT.START}, StopSel=${SEARCH_HIGHLIGHT.STOP}`;
+
+/**
+ * Full-text search over the title, tags and description of a user's active
+ * secrets, most relevant first. Content is never searched.
+ */
+export async function textSearchSecrets(
+  userId: string,
+  options: TextSearchOptions
+) {
+  const limit = Math.min(
+    options.limit ?? PAGINATION_LIMITS.DEFAULT_LIMIT,
+    PAGINATION_LIMITS.MAX_LIMIT
+  );
+  const offset = options.cursor ? Number(options.cursor) : 0;
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+  }
+
+  const conditions = [
+    Prisma.sql`s."createdById" = ${userId}`,
+    Prisma.sql`s."isActive" = true`,
+    Prisma.sql`s."searchVector" @@ q.query`,
+    ...(await filtersSql(userId, options.filters ?? {}, new Date())),
+  ];
+
+  // Headlines are only built for the page, one extra row tells whether
+  // there is another one
+  const hits = await db.$queryRaw<
+    { id: string; rank: number; title: string; snippet: string | null }[]
+  >`
+    WITH q AS (SELECT websearch_to_tsquery('english', ${options.query}) AS query),
+    page AS (
+      SELECT s.id, s.title, s.description,
+        ts_rank(s."searchVector", q.query) AS rank
+      FROM "secrets" s, q
+      WHERE ${Prisma.join(conditions, " AND ")}
+      ORDER BY rank DESC, s.id
+      LIMIT ${limit + 1} OFFSET ${offset}
+    )
+    SELECT page.id, page.rank,
+      ts_headline('english', page.title, q.query,
+        ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS title,
+      CASE WHEN coalesce(page.description, '') = '' THEN NULL
+        ELSE ts_headline('english', page.description, q.query,
+          ${`${HEADLINE_OPTIONS}, MaxFragments=2, MaxWords=20, MinWords=5`})
+      END AS snippet
+    FROM page, q
+    ORDER BY page.rank DESC, page.id
+  `;
+
+  const hasMore = hits.length > limit;
+  const pageHits = hasMore ? hits.slice(0, limit) : hits;
+
+  const secrets = await db.secret.findMany({
+    where: { id: { in: pageHits.map((hit) => hit.id) } },
+    omit: { content: true, dataKey: true, keyId: true },
+  });
+  const byId = new Map(secrets.map((secret) => [secret.id, secret]));
+
+  const items = pageHits.flatMap((hit) => {
+    const secret = byId.get(hit.id);
+    if (!secret) return [];
+
+    const highlight: SearchHighlight = {
+      title: hit.title,
+      snippet: hit.snippet,
+    };
+    return [{ ...secret, rank: hit.rank, highlight }];
+  });
+
+  return {
+    items,
+    nextCursor: hasMore ? String(offset + limit) : null,
+  } satisfies Page<(typeof items)[number]>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Trash
+ *
+ * Deleting a secret moves it to the trash instead of burning it. It is
+ * deactivated right away, so no link reaches it, but its content stays
+ * until the owner restores or purges it, or `TRASH_LIMITS.RETENTION_DAYS`
+ * pass. A secret burned while in the trash (for example because it
+ * expired) stays burned and can no longer be restored.
+ */
+
+import { type Prisma } from "@prisma/client";
+import { db } from "./db";
+import { secretCache, userCache } from "./redis";
+import { wipeSecret, releaseBurnedSecret } from "./secret-burn";
+import { TRASH_LIMITS } from "./constants";
+
+export interface TrashPurgeResult {
+  purged: number;
+  skipped: number; // Restored or purged concurrently
+  failed: number;
+}
+
+// Secrets in the trash that have not been burned yet
+function trashedWhere(userId?: string): Prisma.SecretWhereInput {
+  return {
+    deletedAt: { not: null },
+    burnedAt: null,
+    ...(userId && { createdById: userId }),
+  };
+}
+
+/**
+ * When a secret deleted at `deletedAt` is purged automatically
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(
+    deletedAt.getTime() + TRASH_LIMITS.RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * List the secrets in a user's trash, most recently deleted first
+ */
+export function listTrashedSecrets(userId: string) {
+  return db.secret.findMany({
+    where: trashedWhere(userId),
+    omit: { content: true, dataKey: true, keyId: true },
+    orderBy: { deletedAt: "desc" },
+  });
+}
+
+/**
+ * Move an active secret to the trash. Returns false if the user does not own
+ * it, or it is already burned or in the trash.
+ */
+export async function trashSecret(
+  secretId: string,
+  userId: string
+): Promise<boolean> {
+  const { count } = await db.secret.updateMany({
+    where: {
+      id: secretId,
+      createdById: userId,
+      isActive: true,
+      burnedAt: null,
+    },
+    data: { isActive: false, deletedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await secretCache.deleteSecret(secretId);
+  await userCache.deleteSecretList(userId);
+
+  return true;
+}
+
+/**
+ * Take a secret out of the trash. Returns false if it is not in the user's
+ * trash or has been burned since it was deleted.
+ */
+export async function restoreSecret(
+  secretId: string,
+  userId: string
+): Promise<boolean> {
+  const { count } = await db.secret.updateMany({
+    where: { id: secretId, ...trashedWhere(userId) },
+    data: { isActive: true, deletedAt: null },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await userCache.deleteSecretList(userId);
+
+  return true;
+}
+
+/**
+ * Burn a secret in the user's trash right away. Returns false if it is not
+ * in the trash.
+ */
+export async function purgeSecret(
+  secretId: string,
+  userId: string
+): Promise<boolean> {
+  const burned = await db.$transaction((tx) =>
+    wipeSecret(tx, secretId, trashedWhere(userId))
+  );
+
+  if (!burned) {
+    return false;
+  }
+
+  await releaseBurnedSecret(burned);
+
+  return true;
+}
+
+/**
+ * Burn every secret that has been in the trash longer than the retention
+ * period
+ */
+export async function purgeExpiredTrash(
+  batchSize = 100
+): Promise<TrashPurgeResult> {
+  const cutoff = new Date(
+    Date.now() - TRASH_LIMITS.RETENTION_DAYS * 24 * 60 * 60 * 1000
+  );
+  const where: Prisma.SecretWhereInput = {
+    ...trashedWhere(),
+    deletedAt: { lte: cutoff },
+  };
+  const result: TrashPurgeResult = { purged: 0, skipped: 0, failed: 0 };
+
+  let lastId: string | undefined;
+
+  for (;;) {
+    const batch = await db.secret.findMany({
+      where: { ...where, ...(lastId ? { id: { gt: lastId } } : {}) },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+    });
+
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const secret of batch) {
+      try {
+        // The guard skips secrets restored since the lookup
+        const burned = await db.$transaction((tx) =>
+          wipeSecret(tx, secret.id, where)
+        );
+
+        if (!burned) {
+          result.skipped++;
+          continue;
+        }
+
+        await releaseBurnedSecret(burned);
+        result.purged++;
+      } catch (error) {
+        console.error(`Failed to purge secret ${secret.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
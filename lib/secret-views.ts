@@ -0,0 +1,123 @@
+/**
+ * Secret View Accounting
+ *
+ * Views are claimed with a single conditional UPDATE so concurrent reveals
+ * can never exceed `maxViews` or read a one-time secret twice. Postgres
+ * re-checks the WHERE clause against the latest row version when two
+ * updates race, so only the claims that still fit the limit succeed.
+ * Views through a recipient's share link draw on that share's own budget.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { type Prisma } from "@prisma/client";
+import { db } from "./db";
+
+/**
+ * Atomically consume one view of a secret, deactivating one-time secrets in
+ * the same statement. Returns the new view count, or null if the secret was
+ * expired, exhausted or deactivated by the time the claim ran.
+ */
+export async function claimSecretView(
+  client: Prisma.TransactionClient,
+  secret: { id: string; deleteAfterView: boolean }
+): Promise<number | null> {
+  const { count } = await client.secret.updateMany({
+    where: {
+      id: secret.id,
+      isActive: true,
+      deleteAfterView: secret.deleteAfterView,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      AND: [
+        {
+          OR: [
+            { maxViews: null },
+            { currentViews: { lt: db.secret.fields.maxViews } },
+          ],
+        },
+      ],
+    },
+    data: {
+      currentViews: { increment: 1 },
+      ...(secret.deleteAfterView && { isActive: false }),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const claimed = await client.secret.findUnique({
+    where: { id: secret.id },
+    select: { currentViews: true },
+  });
+
+  return claimed?.currentViews ?? null;
+}
+
+/**
+ * Atomically consume one view of a recipient's share. Returns the new view
+ * count, or null if the share was revoked, expired or exhausted meanwhile.
+ */
+export async function claimShareView(
+  client: Prisma.TransactionClient,
+  shareId: string
+): Promise<number | null> {
+  const { count } = await client.sharedSecret.updateMany({
+    where: {
+      id: shareId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      AND: [
+        {
+          OR: [
+            { maxViews: null },
+            { currentViews: { lt: db.sharedSecret.fields.maxViews } },
+          ],
+        },
+      ],
+    },
+    data: { currentViews: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  const claimed = await client.sharedSecret.findUnique({
+    where: { id: shareId },
+    select: { currentViews: true },
+  });
+
+  return claimed?.currentViews ?? null;
+}
+
+/**
+ * Claim a view from the budget an access draws on: the recipient's share
+ * when there is one, otherwise the secret. One-time secrets are always
+ * claimed on the secret as well, so they are only ever read once.
+ * Returns null if nothing could be claimed. Throws if the second claim
+ * fails after the first succeeded, so the transaction rolls back.
+ */
+export async function claimView(
+  client: Prisma.TransactionClient,
+  secret: { id: string; deleteAfterView: boolean },
+  shareId: string | null
+): Promise<number | null> {
+  if (!shareId) {
+    return claimSecretView(client, secret);
+  }
+
+  const views = await claimShareView(client, shareId);
+  if (views === null || !secret.deleteAfterView) {
+    return views;
+  }
+
+  if ((await claimSecretView(client, secret)) === null) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Secret is no longer available",
+    });
+  }
+
+  return views;
+}
@@ -48,6 +48,17 @@ export interface AuthTokenPayload {
   exp?: number;
 }
 
+/**
+ * Token for a recipient without an account who verified their email
+ */
+export interface RecipientTokenPayload {
+  shareId: string;
+  secretId: string;
+  email: string;
+  iat?: number;
+  exp?: number;
+}
+
 /**
  * Authentication context type
  */
@@ -66,7 +77,7 @@ export interface AuthContextType {
 /**
  * Secret content types
  */
-export type SecretContentType = "TEXT" | "FILE";
+export type SecretContentType = "TEXT" | "FILE" | "IMAGE" | "DOCUMENT";
 
 /**
  * Secret type for UI selections
@@ -78,6 +89,11 @@ export type SecretType = "text" | "file";
  */
 export type SecretPermission = "VIEW" | "DOWNLOAD" | "EDIT";
 
+/**
+ * How a secret's content was accessed
+ */
+export type AccessAction = "VIEW" | "DOWNLOAD";
+
 /**
  * Base secret interface
  */
@@ -86,6 +102,7 @@ export interface BaseSecret {
   title: string;
   description?: string;
   content: string;
+  iv?: string;
   contentType: SecretContentType;
   fileName?: string;
   password?: string;
@@ -146,15 +163,20 @@ export interface SecretFormData {
   content: string;
   password: string;
   maxViews: string;
+  activatesAt: string; // `datetime-local` value, in the browser's time zone
+  allowedCidrs: string[];
 }
 
 /**
  * Secret form settings
  */
 export interface SecretFormSettings {
+  isPublic: boolean; // Anyone with the link, rather than recipients only
   passwordProtected: boolean;
   expirationEnabled: boolean;
   limitViews: boolean;
+  scheduleActivation: boolean; // Links work from `activatesAt` only
+  restrictIps: boolean; // Links work from `allowedCidrs` only
 }
 
 /**
@@ -162,7 +184,9 @@ export interface SecretFormSettings {
  */
 export interface CreatedSecret {
   id: string;
+  slug: string | null;
   title: string;
+  activatesAt: Date | null;
 }
 
 // ============================================================================
@@ -199,6 +223,130 @@ export interface ModalProps {
  */
 export type AuthModalProps = ModalProps;
 
+/**
+ * Per-recipient share link props
+ */
+export interface RecipientLinksProps {
+  secretId: string;
+  slug: string | null; // Public slug the links are built on, null while revoked
+  shareKey: string | null; // Decryption key carried in every link
+}
+
+/**
+ * Highlighted text props
+ */
+export interface HighlightedTextProps {
+  text: string; // With `SEARCH_HIGHLIGHT` markers around matches
+}
+
+/**
+ * Trash list props
+ */
+export interface TrashListProps {
+  onRestored: () => void; // Refresh the active secrets
+}
+
+/**
+ * Expiring soon list props
+ */
+export interface ExpiringSoonListProps {
+  onRenewed: () => void; // Refresh the active secrets
+}
+
+/**
+ * The editable fields of a secret as one editor sees them. Content is null
+ * when it can't be read in this browser.
+ */
+export interface SecretDraft {
+  title: string;
+  content: string | null;
+}
+
+/**
+ * Edit conflict dialog props
+ */
+export interface EditConflictDialogProps extends ModalProps {
+  mine: SecretDraft;
+  latest: SecretDraft | null; // Null while it is loading
+  onReload: () => void;
+}
+
+/**
+ * Folder manager dialog props
+ */
+export type FolderManagerDialogProps = ModalProps;
+
+/**
+ * Folder and tags of a secret, as its owner organizes it
+ */
+export interface SecretOrganization {
+  id: string;
+  title: string;
+  folderId: string | null;
+  tags: string[];
+}
+
+/**
+ * Organize secret dialog props
+ */
+export interface OrganizeSecretDialogProps extends ModalProps {
+  secret: SecretOrganization | null; // Closed while null
+  onSaved: () => void;
+}
+
+/**
+ * Bulk actions bar props
+ */
+export interface BulkActionsBarProps {
+  selectedIds: string[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: (results: BulkItemResult[]) => void; // After each action
+}
+
+/**
+ * Activation countdown props
+ */
+export interface ActivationCountdownProps {
+  activatesAt: Date;
+  onActivated: () => void; // Called once the time has come
+}
+
+/**
+ * IP allowlist editor props
+ */
+export interface IpAllowlistFieldProps {
+  value: string[];
+  onChange: (cidrs: string[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Version history drawer props
+ */
+export interface VersionHistoryDrawerProps extends ModalProps {
+  secretId: string;
+  version: number; // Current version, restores are based on it
+  onRestored: () => void;
+}
+
+/**
+ * One line of a line-by-line text diff
+ */
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Recipient email verification props
+ */
+export interface RecipientVerificationProps {
+  slug: string;
+  onVerified: (recipientToken: string) => void;
+}
+
 // ============================================================================
 // API TYPES (tRPC Router Types)
 // ============================================================================
@@ -217,8 +365,9 @@ export type ResendCodeInput = RouterInputs["auth"]["resendVerificationCode"];
 export type CreateSecretInput = RouterInputs["secret"]["create"];
 export type UpdateSecretInput = RouterInputs["secret"]["update"];
 export type GetSecretInput = RouterInputs["secret"]["getById"];
+export type PreviewSecretInput = RouterInputs["secret"]["preview"];
+export type RevealSecretInput = RouterInputs["secret"]["reveal"];
 export type DeleteSecretInput = RouterInputs["secret"]["delete"];
-export type LogAccessInput = RouterInputs["secret"]["logAccess"];
 export type ShareSecretInput = RouterInputs["secret"]["share"];
 
 /**
@@ -239,8 +388,17 @@ export type VerifyEmailOutput = RouterOutputs["auth"]["verifyEmail"];
  * Secret router output types
  */
 export type SecretOutput = RouterOutputs["secret"]["getById"];
+export type SecretPreviewOutput = RouterOutputs["secret"]["preview"];
+export type RevealSecretOutput = RouterOutputs["secret"]["reveal"];
 export type SecretsListOutput = RouterOutputs["secret"]["getAll"];
 export type CreateSecretOutput = RouterOutputs["secret"]["create"];
+export type ShareSecretOutput = RouterOutputs["secret"]["share"];
+export type ShareListOutput = RouterOutputs["secret"]["listShares"];
+
+/**
+ * Folder router output types
+ */
+export type FolderListOutput = RouterOutputs["folder"]["list"];
 
 /**
  * User router output types
@@ -350,6 +508,8 @@ export interface AccessLog {
   userId?: string;
   ipAddress: string;
   userAgent: string;
+  action: AccessAction;
+  deniedReason?: string;
   accessedAt: Date;
 }
 
@@ -417,26 +577,60 @@ export interface SecretFilters {
   contentType?: SecretContentType;
   createdAfter?: Date;
   createdBefore?: Date;
+  folderId?: string | null; // Includes subfolders; null for secrets in no folder
+  tag?: string;
 }
 
 /**
- * Pagination options
+ * Cursor pagination options
  */
 export interface PaginationOptions {
-  page: number;
-  limit: number;
-  total?: number;
+  limit?: number;
+  cursor?: string | null; // `nextCursor` of the previous page
 }
 
 /**
  * Search and sort options
  */
-export interface SearchOptions {
+export interface SearchOptions extends PaginationOptions {
   query?: string;
   sortField?: SecretSortField;
   sortDirection?: SortDirection;
   filters?: SecretFilters;
-  pagination?: PaginationOptions;
+}
+
+/**
+ * Full-text search options, results are ordered by relevance
+ */
+export interface TextSearchOptions extends PaginationOptions {
+  query: string; // Web search syntax: quoted phrases, "or", -excluded
+  filters?: SecretFilters;
+}
+
+/**
+ * Matched terms of a full-text search hit, wrapped in
+ * `SEARCH_HIGHLIGHT` markers
+ */
+export interface SearchHighlight {
+  title: string;
+  snippet: string | null; // Fragments of the description, null without one
+}
+
+/**
+ * Outcome of a bulk operation for one secret
+ */
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string; // Why it failed, e.g. "Secret not found"
+}
+
+/**
+ * One page of results
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // Null on the last page
 }
 
 // ============================================================================
@@ -465,8 +659,12 @@ export interface SecretMetadata {
   id: string;
   title: string;
   description?: string;
-  contentType: "TEXT" | "FILE";
+  contentType: SecretContentType;
   fileName?: string;
+  fileSize?: number; // Bytes, for file secrets
+  mimeType?: string; // Detected on upload, for file secrets
+  iv?: string;
+  activatesAt: Date | null;
   expiresAt: Date | null;
   deleteAfterView: boolean;
   isPublic: boolean;
@@ -479,6 +677,15 @@ export interface SecretMetadata {
   hasPassword: boolean;
 }
 
+/**
+ * Envelope-encrypted content as persisted in the database and content cache
+ */
+export interface SealedContent {
+  content: string;
+  dataKey: string | null; // Wrapped data key, null for legacy plaintext rows
+  keyId: string | null; // Master key that wrapped the data key
+}
+
 export interface AccessLogMetadata {
   secretId: string;
   userId?: string;
@@ -498,9 +705,11 @@ export interface Secret {
   title: string;
   description?: string;
   content: string;
-  contentType: "TEXT" | "FILE";
+  iv?: string;
+  contentType: SecretContentType;
   fileName?: string;
   password?: string;
+  activatesAt: Date | null;
   expiresAt: Date | null;
   deleteAfterView: boolean;
   isPublic: boolean;
@@ -516,8 +725,10 @@ export interface CacheCreateSecretInput {
   title: string;
   description?: string;
   content: string;
+  iv?: string;
   contentType?: "TEXT" | "FILE";
   password?: string;
+  activatesAt?: Date;
   expiresAt: Date;
   deleteAfterView?: boolean;
   isPublic?: boolean;
@@ -573,6 +784,7 @@ export interface DatabaseSecret {
   description: string | null;
   contentType: string;
   fileName: string | null;
+  activatesAt: Date | null;
   expiresAt: Date | null;
   deleteAfterView: boolean;
   isPublic: boolean;
@@ -584,4 +796,8 @@ export interface DatabaseSecret {
   createdById: string;
   password: string | null;
   content: string;
+  iv: string | null;
+  dataKey: string | null;
+  keyId: string | null;
+  burnedAt: Date | null;
 }
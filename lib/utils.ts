@@ -1 +1,160 @@
 // Helper functions
+
+import { type DiffLine } from "./types";
+import { SEARCH_HIGHLIGHT, type ExpirationOption } from "./constants";
+
+/**
+ * Format a byte count for display, e.g. 1536 -> "1.5 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unit = 0;
+
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Diff two texts line by line, from `before` to `after`, using their
+ * longest common subsequence of lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: "removed", text: a[i++] });
+    } else {
+      diff.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: "removed", text: a[i++] });
+  while (j < b.length) diff.push({ type: "added", text: b[j++] });
+
+  return diff;
+}
+
+/**
+ * Order folders depth-first by name, each with its nesting depth, so a flat
+ * menu can show the tree
+ */
+export function flattenFolderTree<
+  T extends { id: string; name: string; parentId: string | null },
+>(folders: T[]): (T & { depth: number })[] {
+  const sorted = [...folders].sort((a, b) => a.name.localeCompare(b.name));
+  const flat: (T & { depth: number })[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of sorted) {
+      if (folder.parentId !== parentId) continue;
+      flat.push({ ...folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+
+  visit(null, 0);
+  return flat;
+}
+
+/**
+ * Split a full-text search highlight into plain and matched parts
+ */
+export function splitHighlight(
+  text: string
+): { text: string; match: boolean }[] {
+  const [before, ...matches] = text.split(SEARCH_HIGHLIGHT.START);
+  const parts = before ? [{ text: before, match: false }] : [];
+
+  for (const chunk of matches) {
+    const [match, ...rest] = chunk.split(SEARCH_HIGHLIGHT.STOP);
+    const after = rest.join("");
+    parts.push({ text: match, match: true });
+    if (after) parts.push({ text: after, match: false });
+  }
+
+  return parts;
+}
+
+/**
+ * The date a duration after `from`
+ */
+export function addDuration(
+  from: Date,
+  { value, unit }: Pick<ExpirationOption, "value" | "unit">
+): Date {
+  const date = new Date(from);
+
+  switch (unit) {
+    case "minutes":
+      date.setMinutes(date.getMinutes() + value);
+      break;
+    case "hours":
+      date.setHours(date.getHours() + value);
+      break;
+    case "days":
+      date.setDate(date.getDate() + value);
+      break;
+    case "months":
+      date.setMonth(date.getMonth() + value);
+      break;
+  }
+
+  return date;
+}
+
+/**
+ * Format a date as a `datetime-local` input value in the browser's time zone
+ */
+export function toDateTimeLocal(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Format a time span for a countdown, e.g. 93784000 -> "1d 2h 3m 4s"
+ */
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const parts = [
+    [Math.floor(seconds / 86400), "d"],
+    [Math.floor(seconds / 3600) % 24, "h"],
+    [Math.floor(seconds / 60) % 60, "m"],
+    [seconds % 60, "s"],
+  ] as const;
+  const first = parts.findIndex(([value]) => value > 0);
+
+  return first === -1
+    ? "0s"
+    : parts
+        .slice(first)
+        .map(([value, unit]) => `${value}${unit}`)
+        .join(" ");
+}
@@ -0,0 +1,29 @@
+-- Full-text search index for secrets
+--
+-- Keeps "secrets"."searchVector" current from the title (weight A), tags (B)
+-- and description (C). Content is never indexed. Run after `prisma db push`
+-- with `npm run db:search-index`; safe to run again.
+
+CREATE OR REPLACE FUNCTION secrets_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW."tags", ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS secrets_search_vector_update ON "secrets";
+
+CREATE TRIGGER secrets_search_vector_update
+  BEFORE INSERT OR UPDATE OF "title", "tags", "description" ON "secrets"
+  FOR EACH ROW EXECUTE FUNCTION secrets_search_vector_update();
+
+-- Index secrets that existed before the trigger
+UPDATE "secrets"
+SET "searchVector" =
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', array_to_string("tags", ' ')), 'B') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'C')
+WHERE "searchVector" IS NULL;
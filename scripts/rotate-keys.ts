@@ -0,0 +1,38 @@
+/**
+ * Master key rotation runner
+ *
+ * Usage:
+ *   1. Add a new key (`openssl rand -base64 32`) to the keyring and make it
+ *      `activeKeyId`
+ *   2. Deploy, so new secrets are sealed with the new key
+ *   3. npm run keys:rotate
+ *   4. Once it reports nothing skipped or failed, remove the old key
+ */
+
+import "dotenv/config";
+import { db } from "@/lib/db";
+import { rewrapSecrets } from "@/lib/key-rotation";
+
+async function main() {
+  const result = await rewrapSecrets();
+
+  console.log(`Active master key: ${result.activeKeyId}`);
+  console.log(`Re-wrapped data keys: ${result.rewrapped}`);
+  console.log(`Sealed legacy secrets: ${result.sealed}`);
+  console.log(`Re-wrapped version keys: ${result.versions}`);
+  console.log(`Re-wrapped file keys: ${result.files}`);
+  console.log(`Skipped (changed concurrently): ${result.skipped}`);
+  console.log(`Failed: ${result.failed}`);
+
+  if (result.skipped > 0 || result.failed > 0) {
+    console.log("Run again before retiring the old master key.");
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Key rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
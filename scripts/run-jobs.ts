@@ -0,0 +1,48 @@
+/**
+ * Scheduled jobs runner
+ *
+ * Usage:
+ *   npm run jobs:run                      # all jobs
+ *   npm run jobs:run -- sweep-secrets     # specific jobs
+ *
+ * Example crontab entry (every 15 minutes):
+ *   0,15,30,45 * * * * cd /srv/secureshare && npm run jobs:run
+ */
+
+import "dotenv/config";
+import { db } from "@/lib/db";
+import { runJobs, isJobName, jobs } from "@/lib/jobs";
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const unknown = requested.filter((name) => !isJobName(name));
+
+  if (unknown.length > 0) {
+    console.error(`Unknown job: ${unknown.join(", ")}`);
+    console.error(`Available jobs: ${Object.keys(jobs).join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const results = await runJobs(
+    requested.length > 0 ? requested.filter(isJobName) : undefined
+  );
+
+  for (const job of results) {
+    const outcome = job.success
+      ? JSON.stringify(job.result)
+      : `failed: ${job.error}`;
+    console.log(`${job.name} (${job.durationMs}ms): ${outcome}`);
+  }
+
+  if (results.some((job) => !job.success)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Job runner failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
@@ -2,6 +2,8 @@ import { createTRPCRouter } from "@/server/api/trpc";
 import { secretRouter } from "@/server/api/routers/secret";
 import { userRouter } from "@/server/api/routers/user";
 import { authRouter } from "@/server/api/routers/auth";
+import { uploadRouter } from "@/server/api/routers/upload";
+import { folderRouter } from "@/server/api/routers/folder";
 
 /**
  * This is the primary router for your server.
@@ -12,6 +14,8 @@ export const appRouter = createTRPCRouter({
   auth: authRouter,
   secret: secretRouter,
   user: userRouter,
+  upload: uploadRouter,
+  folder: folderRouter,
 });
 
 // export type definition of API
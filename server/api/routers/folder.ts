@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { assertOwnFolder, collectSubtreeIds } from "@/lib/secret-folders";
+import { forEachOwnedSecret } from "@/lib/secret-bulk";
+import { BULK_LIMITS, ORGANIZATION_LIMITS } from "@/lib/constants";
+
+const folderName = z
+  .string()
+  .trim()
+  .min(1)
+  .max(ORGANIZATION_LIMITS.FOLDER_NAME_MAX_LENGTH);
+
+export const folderRouter = createTRPCRouter({
+  // All of the current user's folders, flat; `parentId` links the tree
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const folders = await ctx.db.folder.findMany({
+      where: { createdById: ctx.session.user.id },
+      include: {
+        _count: { select: { secrets: { where: { isActive: true } } } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return folders.map(({ _count, ...folder }) => ({
+      ...folder,
+      secretCount: _count.secrets,
+    }));
+  }),
+
+  create: protectedProcedure
+    .input(z.object({ name: folderName, parentId: z.string().nullish() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.parentId) {
+        await assertOwnFolder(ctx.db, input.parentId, ctx.session.user.id);
+      }
+
+      return ctx.db.folder.create({
+        data: {
+          name: input.name,
+          parentId: input.parentId ?? null,
+          createdById: ctx.session.user.id,
+        },
+      });
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({ id: z.string(), name: folderName }))
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnFolder(ctx.db, input.id, ctx.session.user.id);
+
+      return ctx.db.folder.update({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+    }),
+
+  // Nest a folder in another one, or move it to the top level with null
+  move: protectedProcedure
+    .input(z.object({ id: z.string(), parentId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const folders = await ctx.db.folder.findMany({
+        where: { createdById: ctx.session.user.id },
+        select: { id: true, parentId: true },
+      });
+      const subtree = collectSubtreeIds(folders, input.id);
+
+      if (!folders.some((folder) => folder.id === input.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Folder not found" });
+      }
+
+      if (
+        input.parentId &&
+        !folders.some((folder) => folder.id === input.parentId)
+      ) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Folder not found" });
+      }
+
+      if (input.parentId && subtree.includes(input.parentId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A folder can't be moved into itself",
+        });
+      }
+
+      return ctx.db.folder.update({
+        where: { id: input.id },
+        data: { parentId: input.parentId },
+      });
+    }),
+
+  // Delete a folder, moving its secrets and subfolders up to its parent
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db.$transaction(async (tx) => {
+        const folder = await assertOwnFolder(tx, input.id, ctx.session.user.id);
+
+        await tx.folder.updateMany({
+          where: { parentId: folder.id },
+          data: { parentId: folder.parentId },
+        });
+        await tx.secret.updateMany({
+          where: { folderId: folder.id },
+          data: { folderId: folder.parentId },
+        });
+        await tx.folder.delete({ where: { id: folder.id } });
+      });
+
+      return { success: true };
+    }),
+
+  // Move secrets into a folder, or out of every folder with null
+  moveSecrets: protectedProcedure
+    .input(
+      z.object({
+        secretIds: z.array(z.string()).min(1).max(BULK_LIMITS.MAX_SECRETS),
+        folderId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.folderId) {
+        await assertOwnFolder(ctx.db, input.folderId, ctx.session.user.id);
+      }
+
+      // A result per secret, so the dashboard can report it like other bulk actions
+      return forEachOwnedSecret(
+        ctx.session.user.id,
+        input.secretIds,
+        async (secret) => {
+          await ctx.db.secret.update({
+            where: { id: secret.id },
+            data: { folderId: input.folderId },
+          });
+        }
+      );
+    }),
+});
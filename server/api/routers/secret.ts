@@ -1,24 +1,331 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { AuditAction, type Prisma, type Secret } from "@prisma/client";
 import {
   createTRPCRouter,
   publicProcedure,
   protectedProcedure,
 } from "@/server/api/trpc";
+import { sealContent, openContent } from "@/lib/encryption";
+import { generateRecipientToken, hashPassword } from "@/lib/auth";
+import { generateVerificationCode, sendVerificationEmail } from "@/lib/email";
+import {
+  assertIpAllowed,
+  assertSecretAccess,
+  assertSecretActivated,
+  assertSecretAvailable,
+  assertSecretEditor,
+  findRecipientShare,
+  generateSecretSlug,
+  generateShareToken,
+  invalidateSecretAccess,
+  recordShareAccess,
+  shareSecret,
+  verifySecretPassword,
+} from "@/lib/secret-access";
+import { dbSecretToMetadata } from "@/lib/cache-enhanced-secret";
+import { claimView } from "@/lib/secret-views";
+import { wipeSecret, releaseBurnedSecret } from "@/lib/secret-burn";
+import {
+  getPurgeDate,
+  listTrashedSecrets,
+  purgeSecret,
+  restoreSecret,
+  trashSecret,
+} from "@/lib/secret-trash";
+import { emailCache, secretCache } from "@/lib/redis";
+import { rateLimiters } from "@/lib/rate-limiter";
+import { isUploadComplete } from "@/lib/secret-files";
+import { searchSecrets, textSearchSecrets } from "@/lib/secret-search";
+import { secretTypeForMimeType } from "@/lib/mime";
+import {
+  VERSIONED_FIELDS,
+  isVersionedChange,
+  snapshotSecret,
+} from "@/lib/secret-history";
+import { assertOwnFolder } from "@/lib/secret-folders";
+import { forEachOwnedSecret, setSecretExpiry } from "@/lib/secret-bulk";
+import {
+  assertViewHeadroom,
+  assertWithinLifetime,
+  listRenewableSecrets,
+  renewSecret,
+} from "@/lib/secret-renewal";
+import { addDuration } from "@/lib/utils";
+import { isIpAllowed, parseCidr } from "@/lib/ip-allowlist";
+import {
+  ALLOWLIST_LIMITS,
+  BULK_LIMITS,
+  ORGANIZATION_LIMITS,
+  PAGINATION_LIMITS,
+} from "@/lib/constants";
+
+// The earlier of two optional dates, null when neither is set
+function earliest(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) return a ?? b;
+  return a < b ? a : b;
+}
+
+// A secret has to become available before it expires
+function assertActivatesBeforeExpiry(
+  activatesAt: Date | null | undefined,
+  expiresAt: Date | null | undefined
+) {
+  if (activatesAt && expiresAt && activatesAt >= expiresAt) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The secret must become available before it expires",
+    });
+  }
+}
+
+// Settings that decide who can reach a secret; recipients with EDIT
+// permission may change everything else
+const OWNER_ONLY_FIELDS = [
+  "isPublic",
+  "password",
+  "activatesAt",
+  "expiresAt",
+  "deleteAfterView",
+  "maxViews",
+  "allowedCidrs",
+] as const;
+
+// Burned tombstones and secrets in the trash can't be edited
+function assertSecretEditable(secret: Pick<Secret, "burnedAt" | "deletedAt">) {
+  if (secret.burnedAt || secret.deletedAt) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: secret.burnedAt
+        ? "Secret has been burned"
+        : "Secret is in the trash, restore it first",
+    });
+  }
+}
+
+// Explain why a guarded edit matched nothing: the secret was burned or
+// trashed meanwhile, or someone else saved first
+async function rejectUnappliedEdit(
+  tx: Prisma.TransactionClient,
+  id: string
+): Promise<never> {
+  const current = await tx.secret.findUnique({
+    where: { id },
+    select: { burnedAt: true, deletedAt: true },
+  });
+
+  if (!current) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+  }
+  assertSecretEditable(current);
+
+  throw new TRPCError({
+    code: "CONFLICT",
+    message: "This secret was changed by someone else since you opened it",
+  });
+}
+
+// Audit actions that change a secret's content, shown as its last edit
+const EDIT_ACTIONS = [AuditAction.SECRET_UPDATED, AuditAction.SECRET_RESTORED];
+
+// Names of the fields an update actually changes. New content always
+// counts, since it can't be compared with the stored ciphertext.
+function changedFieldsOf(
+  secret: Secret,
+  changes: Partial<Record<keyof Secret, unknown>>
+): string[] {
+  return Object.entries(changes)
+    .filter(([field, value]) => {
+      const current = secret[field as keyof Secret];
+      if (value === undefined) return false;
+      if (field === "content" || field === "iv") return true;
+      if (field === "password") return value !== "" || current !== null;
+      if (value instanceof Date && current instanceof Date) {
+        return value.getTime() !== current.getTime();
+      }
+      if (Array.isArray(value) && Array.isArray(current)) {
+        return value.join() !== current.join();
+      }
+      return value !== current;
+    })
+    .map(([field]) => field);
+}
+
+// Replace the password hash with a flag so it never reaches the client
+function withoutPassword<T extends { password: string | null }>(secret: T) {
+  const { password, ...rest } = secret;
+  return { ...rest, hasPassword: !!password };
+}
+
+// Free-form tags, trimmed and without duplicates
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(ORGANIZATION_LIMITS.TAG_MAX_LENGTH))
+  .max(ORGANIZATION_LIMITS.MAX_TAGS)
+  .transform((tags) => [...new Set(tags)]);
+
+// Client IP ranges a secret's links work from, trimmed and without duplicates
+const allowedCidrsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .refine((cidr) => parseCidr(cidr) !== null, {
+        message: "Not a valid IP address or CIDR range",
+      })
+  )
+  .max(ALLOWLIST_LIMITS.MAX_RANGES)
+  .transform((cidrs) => [...new Set(cidrs)]);
+
+// Recipient emails, lowercased like account emails and without duplicates,
+// so sharing again with different casing updates the same share
+const recipientEmailsSchema = z
+  .array(z.string().trim().toLowerCase().email())
+  .transform((emails) => [...new Set(emails)]);
+
+// Secrets picked for a bulk operation
+const bulkIdsSchema = z.array(z.string()).min(1).max(BULK_LIMITS.MAX_SECRETS);
+
+// Filters shared by `search` and `textSearch`, see `SecretFilters`
+const searchFiltersSchema = z.object({
+  isExpired: z.boolean().optional(),
+  hasPassword: z.boolean().optional(),
+  contentType: z.enum(["TEXT", "FILE", "IMAGE", "DOCUMENT"]).optional(),
+  createdAfter: z.date().optional(),
+  createdBefore: z.date().optional(),
+  folderId: z.string().nullish(),
+  tag: z.string().optional(),
+});
+
+// Shape a secret for a user: content is only included for the owner, and
+// only when unprotected and requested from an allowed network. Recipients
+// read it through `reveal`, which counts the view against their share.
+// Folder, tags and the IP allowlist are left out since recipients may see
+// the result too.
+function toSecretView(secret: Secret, userId: string, ipAddress: string) {
+  const { content, dataKey, keyId, folderId, tags, allowedCidrs, ...rest } =
+    secret;
+  const releasesContent =
+    secret.createdById === userId &&
+    !secret.password &&
+    isIpAllowed(ipAddress, allowedCidrs);
+  return {
+    ...withoutPassword(rest),
+    content: releasesContent ? openContent({ content, dataKey, keyId }) : null,
+  };
+}
 
 export const secretRouter = createTRPCRouter({
   // Get all secrets for the current user
   getAll: protectedProcedure.query(async ({ ctx }) => {
-    return ctx.db.secret.findMany({
+    const secrets = await ctx.db.secret.findMany({
       where: {
         createdById: ctx.session.user.id,
         isActive: true, // Only fetch active secrets
       },
+      omit: { content: true, dataKey: true, keyId: true },
       orderBy: { createdAt: "desc" },
     });
+
+    return secrets.map(withoutPassword);
   }),
 
-  // Get a specific secret by ID
-  getById: publicProcedure
+  // Search the current user's active secrets, one page at a time
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().max(200).optional(),
+        sortField: z
+          .enum(["createdAt", "title", "expiresAt", "currentViews"])
+          .optional(),
+        sortDirection: z.enum(["asc", "desc"]).optional(),
+        filters: searchFiltersSchema.optional(),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(PAGINATION_LIMITS.MAX_LIMIT)
+          .optional(),
+        cursor: z.string().nullish(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const page = await searchSecrets(ctx.session.user.id, input);
+
+      return { ...page, items: page.items.map(withoutPassword) };
+    }),
+
+  // Full-text search over titles, tags and descriptions, ranked, with the
+  // matched terms highlighted
+  textSearch: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        filters: searchFiltersSchema.optional(),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(PAGINATION_LIMITS.MAX_LIMIT)
+          .optional(),
+        cursor: z.string().nullish(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const page = await textSearchSecrets(ctx.session.user.id, input);
+
+      return { ...page, items: page.items.map(withoutPassword) };
+    }),
+
+  // Counts for the dashboard, over all of the current user's active secrets
+  getStats: protectedProcedure.query(async ({ ctx }) => {
+    const where = { createdById: ctx.session.user.id, isActive: true };
+
+    const [total, expired, views] = await Promise.all([
+      ctx.db.secret.count({ where }),
+      ctx.db.secret.count({
+        where: { ...where, expiresAt: { lte: new Date() } },
+      }),
+      ctx.db.secret.aggregate({ where, _sum: { currentViews: true } }),
+    ]);
+
+    return {
+      total,
+      active: total - expired,
+      expired,
+      views: views._sum.currentViews ?? 0,
+    };
+  }),
+
+  // Every tag the current user has put on an active secret
+  listTags: protectedProcedure.query(async ({ ctx }) => {
+    const secrets = await ctx.db.secret.findMany({
+      where: { createdById: ctx.session.user.id, isActive: true },
+      select: { tags: true },
+    });
+
+    return [...new Set(secrets.flatMap((secret) => secret.tags))].sort();
+  }),
+
+  // Replace a secret's tags (owner only, tags are never shown to others)
+  setTags: protectedProcedure
+    .input(z.object({ id: z.string(), tags: tagsSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.secret.updateMany({
+        where: { id: input.id, createdById: ctx.session.user.id },
+        data: { tags: input.tags },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+      }
+
+      return { tags: input.tags };
+    }),
+
+  // Get a specific secret by ID for editing (owner and recipients with
+  // EDIT permission). Does not count as a view, so only the owner gets
+  // the content.
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       const secret = await ctx.db.secret.findUnique({
@@ -26,24 +333,294 @@ export const secretRouter = createTRPCRouter({
       });
 
       if (!secret) {
-        throw new Error("Secret not found");
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
       }
 
-      // Check if secret is expired or exceeded max views
-      const now = new Date();
-      if (secret.expiresAt && now > secret.expiresAt) {
-        throw new Error("Secret has expired");
+      const grant = await assertSecretEditor(secret, ctx.session.user.id);
+      const isOwner = secret.createdById === ctx.session.user.id;
+
+      // Owners can still open expired or used-up secrets to renew them, and
+      // fix an allowlist that shuts them out (`toSecretView` withholds the
+      // content there). Recipients can't edit what they can't read.
+      if (isOwner) {
+        assertSecretEditable(secret);
+      } else {
+        assertSecretAvailable(secret);
+        assertSecretActivated(secret);
+        await assertIpAllowed(secret, {
+          userId: ctx.session.user.id,
+          sharedSecretId: grant.shareId,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
+        });
+      }
+
+      const lastEdit = await ctx.db.auditLog.findFirst({
+        where: { secretId: secret.id, action: { in: EDIT_ACTIONS } },
+        orderBy: { createdAt: "desc" },
+        select: {
+          createdAt: true,
+          user: { select: { name: true, email: true } },
+        },
+      });
+
+      // Password-protected content is only released by `reveal`
+      return {
+        ...toSecretView(secret, ctx.session.user.id, ctx.ipAddress),
+        ...(isOwner && {
+          allowedCidrs: secret.allowedCidrs,
+          isClientIpAllowed: isIpAllowed(ctx.ipAddress, secret.allowedCidrs),
+        }),
+        permission: grant.permission,
+        lastEdit,
+      };
+    }),
+
+  // Get a secret's metadata without its content or consuming a view.
+  // Secrets that are not public are limited to the owner and recipients.
+  preview: publicProcedure
+    .input(
+      z.object({
+        slug: z.string(),
+        recipientToken: z.string().optional(), // From `verifyRecipient`
+        linkToken: z.string().optional(), // From a recipient's share link
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { slug: input.slug },
+        omit: { content: true, dataKey: true, keyId: true },
+        include: { file: { select: { size: true, mimeType: true } } },
+      });
+
+      // Also tells the viewer whether a file can be downloaded or previewed
+      const grant = secret
+        ? await assertSecretAccess(secret, {
+            userId: ctx.user?.userId,
+            recipientToken: input.recipientToken,
+            linkToken: input.linkToken,
+          })
+        : null;
+
+      assertSecretAvailable(secret, grant);
+
+      return {
+        ...dbSecretToMetadata(secret),
+        // Link holders know the secret by its slug. The database ID only
+        // goes to editors, for the edit link, and the owner's never does.
+        id: grant?.permission === "EDIT" ? secret.id : undefined,
+        createdById: undefined,
+        // Recipients see the view count and expiry of their own link
+        ...(grant?.budget && {
+          maxViews: grant.budget.maxViews ?? undefined,
+          currentViews: grant.budget.currentViews,
+          expiresAt: earliest(secret.expiresAt, grant.budget.expiresAt),
+        }),
+        fileSize: secret.file?.size,
+        mimeType: secret.file?.mimeType,
+        permission: grant?.permission,
+      };
+    }),
+
+  // Consume a view and release the content, verifying the password if set
+  reveal: publicProcedure
+    .input(
+      z.object({
+        slug: z.string(),
+        password: z.string().optional(),
+        recipientToken: z.string().optional(),
+        linkToken: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { slug: input.slug },
+        select: {
+          id: true,
+          password: true,
+          createdById: true,
+          isPublic: true,
+          allowedCidrs: true,
+        },
+      });
+
+      const grant = secret
+        ? await assertSecretAccess(secret, {
+            userId: ctx.user?.userId,
+            recipientToken: input.recipientToken,
+            linkToken: input.linkToken,
+          })
+        : null;
+
+      // Checked before the password, so it can't be guessed from elsewhere
+      if (secret) {
+        await assertIpAllowed(secret, {
+          userId: ctx.user?.userId,
+          sharedSecretId: grant?.shareId,
+          ipAddress: ctx.ipAddress,
+          userAgent: ctx.userAgent,
+        });
+        await verifySecretPassword(secret, input.password, ctx.ipAddress);
       }
 
-      if (secret.maxViews && secret.currentViews >= secret.maxViews) {
-        throw new Error("Secret has reached maximum views");
+      // Validate, count the view and log the access as a single unit
+      const revealed = await ctx.db.$transaction(async (tx) => {
+        const current = await tx.secret.findUnique({
+          where: { slug: input.slug },
+        });
+
+        assertSecretAvailable(current, grant);
+        assertSecretActivated(current);
+
+        if (current.contentType !== "TEXT") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "File secrets are downloaded, not revealed",
+          });
+        }
+
+        // Conditional claim, so parallel reveals cannot exceed the limit
+        const views = await claimView(tx, current, grant?.shareId ?? null);
+        if (views === null) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Secret is no longer available",
+          });
+        }
+
+        await tx.accessLog.create({
+          data: {
+            secretId: current.id,
+            userId: ctx.user?.userId,
+            sharedSecretId: grant?.shareId,
+            ipAddress: ctx.ipAddress,
+            userAgent: ctx.userAgent,
+          },
+        });
+
+        await recordShareAccess(tx, grant);
+
+        const content = openContent(current);
+
+        // One-time secrets are wiped as part of the same reveal
+        const burned = current.deleteAfterView
+          ? await wipeSecret(tx, current.id)
+          : null;
+
+        return { secretId: current.id, content, iv: current.iv, burned };
+      });
+
+      // The cached copy is stale after a view and must not outlive a burn
+      if (revealed.burned) {
+        await releaseBurnedSecret(revealed.burned);
+      } else {
+        await secretCache.deleteSecret(revealed.secretId);
       }
 
-      if (!secret.isActive) {
-        throw new Error("Secret is not active");
+      return { content: revealed.content, iv: revealed.iv };
+    }),
+
+  // Email a one-time code to a recipient the secret was shared with who
+  // has no account, so they can prove they own the address
+  requestRecipientCode: publicProcedure
+    .input(z.object({ slug: z.string(), email: z.string().email() }))
+    .mutation(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { slug: input.slug },
+        select: {
+          id: true,
+          expiresAt: true,
+          maxViews: true,
+          currentViews: true,
+          isActive: true,
+        },
+      });
+
+      assertSecretAvailable(secret);
+
+      const rateLimitResult = await rateLimiters.emailVerification(
+        `recipient:${secret.id}:${input.email.toLowerCase()}`
+      );
+      if (!rateLimitResult.success) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many code requests. Please try again later.",
+        });
+      }
+
+      // Answer the same way for unknown emails so recipients can't be probed
+      const share = await findRecipientShare(secret.id, input.email);
+      if (share?.email) {
+        const code = generateVerificationCode();
+        await emailCache.setRecipientCode(secret.id, share.email, code);
+
+        const emailResult = await sendVerificationEmail(share.email, code);
+        if (!emailResult.success) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to send verification email",
+          });
+        }
       }
 
-      return secret;
+      return {
+        success: true,
+        message:
+          "If this secret was shared with that email, a code is on its way.",
+      };
+    }),
+
+  // Exchange a recipient's emailed code for a token granting their share
+  verifyRecipient: publicProcedure
+    .input(
+      z.object({
+        slug: z.string(),
+        email: z.string().email(),
+        code: z.string().length(6),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { slug: input.slug },
+        select: { id: true },
+      });
+
+      if (!secret) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+      }
+
+      // Throttle code guesses per recipient
+      const rateLimitResult = await rateLimiters.unlockSecret(
+        `recipient:${secret.id}:${input.email.toLowerCase()}`
+      );
+      if (!rateLimitResult.success) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "Too many attempts. Please try again later.",
+        });
+      }
+
+      const share = await findRecipientShare(secret.id, input.email);
+      const stored = share?.email
+        ? await emailCache.getRecipientCode(secret.id, share.email)
+        : null;
+
+      if (!share?.email || !stored || stored.code !== input.code) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Invalid or expired verification code",
+        });
+      }
+
+      await emailCache.deleteRecipientCode(secret.id, share.email);
+      await recordShareAccess(ctx.db, { shareId: share.id });
+
+      return {
+        recipientToken: generateRecipientToken({
+          ...share,
+          email: share.email,
+        }),
+      };
     }),
 
   // Create a new secret
@@ -52,59 +629,390 @@ export const secretRouter = createTRPCRouter({
       z.object({
         title: z.string().min(1),
         description: z.string().optional(),
-        content: z.string().min(1),
+        content: z.string().default(""), // Optional for file secrets
+        iv: z.string().optional(), // Set when content was encrypted in the browser
         contentType: z.enum(["TEXT", "FILE"]).default("TEXT"),
+        fileId: z.string().optional(), // Completed upload from `upload.start`
         password: z.string().optional(),
+        activatesAt: z.date().optional(), // Links release nothing before this
         expiresAt: z.date().optional(),
         deleteAfterView: z.boolean().default(false),
         isPublic: z.boolean().default(false),
         maxViews: z.number().positive().optional(),
+        allowedCidrs: allowedCidrsSchema.optional(), // Empty allows every IP
+        folderId: z.string().optional(),
+        tags: tagsSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.secret.create({
-        data: {
-          ...input,
-          createdById: ctx.session.user.id,
-          currentViews: 0,
-          isActive: true,
-        },
+      const { fileId, ...secretData } = input;
+
+      assertActivatesBeforeExpiry(input.activatesAt, input.expiresAt);
+
+      if (input.expiresAt) {
+        assertWithinLifetime(input.expiresAt, new Date());
+      }
+
+      if (input.maxViews !== undefined) {
+        assertViewHeadroom(input.maxViews, 0);
+      }
+
+      if (input.folderId) {
+        await assertOwnFolder(ctx.db, input.folderId, ctx.session.user.id);
+      }
+
+      if (!fileId && input.contentType === "FILE") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "File secrets require an uploaded file",
+        });
+      }
+
+      if (!fileId && !input.content) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Secret content is required",
+        });
+      }
+
+      const file = fileId
+        ? await ctx.db.secretFile.findUnique({ where: { id: fileId } })
+        : null;
+
+      if (fileId) {
+        if (
+          !file ||
+          file.createdById !== ctx.session.user.id ||
+          file.secretId
+        ) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Upload not found",
+          });
+        }
+
+        if (!isUploadComplete(file)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Upload is not complete",
+          });
+        }
+      }
+
+      const passwordHash = input.password
+        ? await hashPassword(input.password)
+        : undefined;
+
+      const secret = await ctx.db.$transaction(async (tx) => {
+        const created = await tx.secret.create({
+          data: {
+            ...secretData,
+            ...sealContent(input.content),
+            // File secrets are typed from the detected MIME type
+            ...(file && {
+              contentType: secretTypeForMimeType(file.mimeType),
+              fileName: file.fileName,
+            }),
+            password: passwordHash,
+            slug: generateSecretSlug(),
+            createdById: ctx.session.user.id,
+            currentViews: 0,
+            isActive: true,
+          },
+        });
+
+        if (file) {
+          // Guarded so one upload can never back two secrets
+          const { count } = await tx.secretFile.updateMany({
+            where: { id: file.id, secretId: null },
+            data: { secretId: created.id },
+          });
+
+          if (count === 0) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: "Upload is already attached to a secret",
+            });
+          }
+        }
+
+        return created;
       });
+
+      return toSecretView(secret, ctx.session.user.id, ctx.ipAddress);
     }),
 
-  // Update a secret
+  // Update a secret. Recipients with EDIT permission may change its title,
+  // description and content; every update is recorded in the audit log.
   update: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          version: z.number().int(), // The version the edit was based on
+          title: z.string().min(1).optional(),
+          description: z.string().optional(),
+          content: z.string().min(1).optional(),
+          iv: z.string().optional(), // Only with new content
+          password: z.string().optional(), // Omit to keep, empty string to remove
+          activatesAt: z.date().nullable().optional(), // Null to activate now
+          expiresAt: z.date().nullable().optional(),
+          deleteAfterView: z.boolean().optional(),
+          isPublic: z.boolean().optional(),
+          maxViews: z.number().positive().optional(),
+          allowedCidrs: allowedCidrsSchema.optional(), // Empty allows every IP
+        })
+        // A new IV alone would leave the stored ciphertext undecryptable
+        .refine((input) => input.iv === undefined || !!input.content, {
+          message: "An IV can only be sent along with new content",
+          path: ["iv"],
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, version, iv, ...updateData } = input;
+      const userId = ctx.session.user.id;
+
+      const secret = await ctx.db.secret.findUnique({
+        where: { id },
+      });
+
+      if (!secret) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+      }
+
+      assertSecretEditable(secret);
+
+      const grant = await assertSecretEditor(secret, userId);
+      const changedFields = changedFieldsOf(secret, { ...updateData, iv });
+
+      assertActivatesBeforeExpiry(
+        updateData.activatesAt === undefined
+          ? secret.activatesAt
+          : updateData.activatesAt,
+        updateData.expiresAt === undefined
+          ? secret.expiresAt
+          : updateData.expiresAt
+      );
+
+      if (updateData.expiresAt) {
+        assertWithinLifetime(updateData.expiresAt, secret.createdAt);
+      }
+
+      if (updateData.maxViews !== undefined) {
+        assertViewHeadroom(updateData.maxViews, secret.currentViews);
+      }
+
+      if (
+        secret.createdById !== userId &&
+        OWNER_ONLY_FIELDS.some((field) => changedFields.includes(field))
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the owner can change who can access this secret",
+        });
+      }
+
+      const passwordHash =
+        updateData.password === undefined
+          ? undefined
+          : updateData.password
+            ? await hashPassword(updateData.password)
+            : null;
+
+      const updated = await ctx.db.$transaction(async (tx) => {
+        // Only applies while nobody else has saved since the edit began
+        const { count } = await tx.secret.updateMany({
+          where: { id, version, burnedAt: null, deletedAt: null },
+          data: {
+            ...updateData,
+            // New content replaces the IV too, so plaintext clears it
+            ...(updateData.content && {
+              ...sealContent(updateData.content),
+              iv: iv ?? null,
+            }),
+            password: passwordHash,
+            version: { increment: 1 },
+          },
+        });
+
+        if (count === 0) {
+          await rejectUnappliedEdit(tx, secret.id);
+        }
+
+        // The version check above guarantees `secret` is what was replaced
+        if (isVersionedChange(changedFields)) {
+          await snapshotSecret(tx, secret, {
+            changedById: userId,
+            changedFields,
+          });
+        }
+
+        // Field names only, so no content or password ends up in the log
+        await tx.auditLog.create({
+          data: {
+            secretId: id,
+            userId,
+            action: AuditAction.SECRET_UPDATED,
+            details: { fields: changedFields, sharedSecretId: grant.shareId },
+          },
+        });
+
+        return tx.secret.findUniqueOrThrow({ where: { id } });
+      });
+
+      await invalidateSecretAccess(id);
+
+      return toSecretView(updated, userId, ctx.ipAddress);
+    }),
+
+  // List a secret's previous versions, newest first, without their content
+  listVersions: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { id: input.id },
+        select: { id: true, createdById: true },
+      });
+
+      if (!secret) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
+      }
+
+      await assertSecretEditor(secret, ctx.session.user.id);
+
+      return ctx.db.secretVersion.findMany({
+        where: { secretId: secret.id },
+        orderBy: { version: "desc" },
+        select: {
+          id: true,
+          version: true,
+          title: true,
+          changedFields: true,
+          createdAt: true,
+          changedBy: { select: { name: true } },
+        },
+      });
+    }),
+
+  // Bring back the title, description and content of a previous version.
+  // The values being replaced are kept as a version of their own.
+  restoreVersion: protectedProcedure
     .input(
       z.object({
         id: z.string(),
-        title: z.string().min(1).optional(),
-        description: z.string().optional(),
-        content: z.string().min(1).optional(),
-        password: z.string().optional(),
-        expiresAt: z.date().nullable().optional(),
-        deleteAfterView: z.boolean().optional(),
-        isPublic: z.boolean().optional(),
-        maxViews: z.number().positive().optional(),
+        versionId: z.string(),
+        version: z.number().int(), // The version the restore was based on
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, ...updateData } = input;
+      const userId = ctx.session.user.id;
 
       const secret = await ctx.db.secret.findUnique({
-        where: { id },
+        where: { id: input.id },
       });
 
-      if (!secret || secret.createdById !== ctx.session.user.id) {
-        throw new Error("Secret not found or unauthorized");
+      if (!secret) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Secret not found" });
       }
 
-      return ctx.db.secret.update({
-        where: { id },
-        data: updateData,
+      assertSecretEditable(secret);
+
+      const grant = await assertSecretEditor(secret, userId);
+
+      const target = await ctx.db.secretVersion.findFirst({
+        where: { id: input.versionId, secretId: secret.id },
       });
+
+      if (!target) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found",
+        });
+      }
+
+      const restored = await ctx.db.$transaction(async (tx) => {
+        const { count } = await tx.secret.updateMany({
+          where: {
+            id: secret.id,
+            version: input.version,
+            burnedAt: null,
+            deletedAt: null,
+          },
+          data: {
+            title: target.title,
+            description: target.description,
+            content: target.content,
+            iv: target.iv,
+            dataKey: target.dataKey,
+            keyId: target.keyId,
+            version: { increment: 1 },
+          },
+        });
+
+        if (count === 0) {
+          await rejectUnappliedEdit(tx, secret.id);
+        }
+
+        await snapshotSecret(tx, secret, {
+          changedById: userId,
+          changedFields: [...VERSIONED_FIELDS],
+        });
+
+        await tx.auditLog.create({
+          data: {
+            secretId: secret.id,
+            userId,
+            action: AuditAction.SECRET_RESTORED,
+            details: {
+              restoredVersion: target.version,
+              sharedSecretId: grant.shareId,
+            },
+          },
+        });
+
+        return tx.secret.findUniqueOrThrow({ where: { id: secret.id } });
+      });
+
+      await invalidateSecretAccess(secret.id);
+
+      return toSecretView(restored, userId, ctx.ipAddress);
+    }),
+
+  // Secrets that expire soon, have expired or used up their views but
+  // haven't been burned yet, with the latest expiry each can be renewed to
+  listExpiringSoon: protectedProcedure.query(({ ctx }) =>
+    listRenewableSecrets(ctx.session.user.id, PAGINATION_LIMITS.DEFAULT_LIMIT)
+  ),
+
+  // Renew a secret: push out its expiry or raise its view limit (owner only).
+  // Unlike `update`, this works on expired or used-up secrets until they
+  // are burned, but not past the maximum lifetime.
+  extend: protectedProcedure
+    .input(
+      z
+        .object({
+          id: z.string(),
+          expiresAt: z.date().optional(),
+          maxViews: z.number().int().positive().optional(),
+        })
+        .refine(
+          (input) =>
+            input.expiresAt !== undefined || input.maxViews !== undefined,
+          { message: "Give a new expiry or view limit" }
+        )
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...renewal } = input;
+      const secret = await renewSecret(id, ctx.session.user.id, renewal);
+
+      return {
+        expiresAt: secret.expiresAt,
+        maxViews: secret.maxViews,
+        version: secret.version,
+      };
     }),
 
-  // Delete a secret (soft delete)
+  // Delete a secret by moving it to the trash
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -116,62 +1024,184 @@ export const secretRouter = createTRPCRouter({
         throw new Error("Secret not found or unauthorized");
       }
 
-      return ctx.db.secret.update({
-        where: { id: input.id },
-        data: { isActive: false },
-      });
+      // Links stop working right away, the content stays until it is purged
+      await trashSecret(input.id, ctx.session.user.id);
+
+      return { success: true };
     }),
 
-  // Increment view count and log access
-  logAccess: publicProcedure
+  // List the secrets in the current user's trash
+  listDeleted: protectedProcedure.query(async ({ ctx }) => {
+    const secrets = await listTrashedSecrets(ctx.session.user.id);
+
+    return secrets.map((secret) => ({
+      ...withoutPassword(secret),
+      purgesAt: getPurgeDate(secret.deletedAt!),
+    }));
+  }),
+
+  // Take a secret out of the trash
+  restore: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const restored = await restoreSecret(input.id, ctx.session.user.id);
+
+      if (!restored) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Secret is not in the trash",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Burn a secret in the trash without waiting for the retention period
+  purge: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const purged = await purgeSecret(input.id, ctx.session.user.id);
+
+      if (!purged) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Secret is not in the trash",
+        });
+      }
+
+      return { success: true };
+    }),
+
+  // Bulk operations: each ID is checked and handled separately, and the
+  // result lists which secrets succeeded and why the others failed
+
+  // Move secrets to the trash
+  bulkDelete: protectedProcedure
+    .input(z.object({ ids: bulkIdsSchema }))
+    .mutation(({ ctx, input }) =>
+      forEachOwnedSecret(ctx.session.user.id, input.ids, async (secret) => {
+        if (!(await trashSecret(secret.id, ctx.session.user.id))) {
+          throw new Error("Secret has already been burned");
+        }
+      })
+    ),
+
+  // Expire secrets now. Links stop working right away and the expiry
+  // sweeper burns them once the renewal grace period has passed.
+  bulkExpire: protectedProcedure
+    .input(z.object({ ids: bulkIdsSchema }))
+    .mutation(({ ctx, input }) => {
+      const now = new Date();
+
+      return forEachOwnedSecret(ctx.session.user.id, input.ids, (secret) =>
+        setSecretExpiry(secret, ctx.session.user.id, now)
+      );
+    }),
+
+  // Push back the expiry of secrets, counting from now for expired ones.
+  // Subject to the same lifetime cap as `extend`.
+  bulkExtend: protectedProcedure
     .input(
       z.object({
-        secretId: z.string(),
-        ipAddress: z.string(),
-        userAgent: z.string(),
+        ids: bulkIdsSchema,
+        by: z.object({
+          value: z.number().int().positive(),
+          unit: z.enum(["minutes", "hours", "days", "months"]),
+        }),
+      })
+    )
+    .mutation(({ ctx, input }) => {
+      const now = new Date();
+
+      return forEachOwnedSecret(
+        ctx.session.user.id,
+        input.ids,
+        async (secret) => {
+          if (!secret.expiresAt) {
+            throw new Error("Secret never expires");
+          }
+
+          const from = secret.expiresAt > now ? secret.expiresAt : now;
+          await renewSecret(secret.id, ctx.session.user.id, {
+            expiresAt: addDuration(from, input.by),
+          });
+        }
+      );
+    }),
+
+  // Share secrets with the same recipients, see `share`
+  bulkShare: protectedProcedure
+    .input(
+      z.object({
+        ids: bulkIdsSchema,
+        emails: recipientEmailsSchema.pipe(z.array(z.string()).min(1)),
+        permission: z.enum(["VIEW", "DOWNLOAD", "EDIT"]).default("VIEW"),
+        maxViews: z.number().int().positive().optional(), // Per recipient link
       })
     )
+    .mutation(({ ctx, input }) => {
+      const { ids, ...options } = input;
+
+      return forEachOwnedSecret(ctx.session.user.id, ids, async (secret) => {
+        await shareSecret(ctx.db, secret, options);
+      });
+    }),
+
+  // Give a secret a new public slug, so links using the old one stop working.
+  // Also re-enables links after `revokeSlug`.
+  rotateSlug: protectedProcedure
+    .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      // First, increment the view count
-      const secret = await ctx.db.secret.update({
-        where: { id: input.secretId },
-        data: {
-          currentViews: { increment: 1 },
-        },
+      const slug = generateSecretSlug();
+
+      const { count } = await ctx.db.secret.updateMany({
+        where: { id: input.id, createdById: ctx.session.user.id },
+        data: { slug },
       });
 
-      // Log the access
-      await ctx.db.accessLog.create({
-        data: {
-          secretId: input.secretId,
-          ipAddress: input.ipAddress,
-          userAgent: input.userAgent,
-          accessedAt: new Date(),
-        },
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Secret not found or unauthorized",
+        });
+      }
+
+      return { slug };
+    }),
+
+  // Disable every link to a secret without deleting it
+  revokeSlug: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.secret.updateMany({
+        where: { id: input.id, createdById: ctx.session.user.id },
+        data: { slug: null },
       });
 
-      // If it's a one-time view secret, mark it as inactive
-      if (secret.deleteAfterView) {
-        await ctx.db.secret.update({
-          where: { id: input.secretId },
-          data: { isActive: false },
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Secret not found or unauthorized",
         });
       }
 
       return { success: true };
     }),
 
-  // Share a secret with users
+  // Share a secret with users. Sharing again with a recipient updates their
+  // permission and limits instead of failing, and restores a revoked link.
   share: protectedProcedure
     .input(
       z.object({
         secretId: z.string(),
-        emails: z.array(z.string().email()),
+        emails: recipientEmailsSchema,
         permission: z.enum(["VIEW", "DOWNLOAD", "EDIT"]).default("VIEW"),
+        maxViews: z.number().int().positive().optional(), // Per recipient link
+        expiresAt: z.date().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { secretId, emails, permission } = input;
+      const { secretId, ...options } = input;
 
       // Verify the secret belongs to the user
       const secret = await ctx.db.secret.findUnique({
@@ -185,25 +1215,97 @@ export const secretRouter = createTRPCRouter({
         throw new Error("Secret not found or access denied");
       }
 
-      // Create shared secret entries
-      const sharedSecrets = await Promise.all(
-        emails.map(async (email) => {
-          // Check if user exists
-          const user = await ctx.db.user.findUnique({
-            where: { email },
-          });
+      return shareSecret(ctx.db, secret, options);
+    }),
 
-          return ctx.db.sharedSecret.create({
-            data: {
-              secretId,
-              userId: user?.id,
-              email,
-              permissions: permission,
-            },
-          });
-        })
-      );
+  // List the recipients a secret is shared with (owner only)
+  listShares: protectedProcedure
+    .input(z.object({ secretId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const secret = await ctx.db.secret.findUnique({
+        where: { id: input.secretId, createdById: ctx.session.user.id },
+        select: { id: true },
+      });
+
+      if (!secret) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Secret not found or access denied",
+        });
+      }
+
+      return ctx.db.sharedSecret.findMany({
+        where: { secretId: secret.id },
+        orderBy: { sharedAt: "asc" },
+      });
+    }),
+
+  // Change a recipient's permission or the limits on their link
+  updateShare: protectedProcedure
+    .input(
+      z.object({
+        shareId: z.string(),
+        permission: z.enum(["VIEW", "DOWNLOAD", "EDIT"]).optional(),
+        maxViews: z.number().int().positive().nullable().optional(), // Null for unlimited
+        expiresAt: z.date().nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { shareId, permission, ...limits } = input;
+
+      const share = await ctx.db.sharedSecret.findFirst({
+        where: { id: shareId, secret: { createdById: ctx.session.user.id } },
+        select: { id: true },
+      });
+
+      if (!share) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share not found" });
+      }
+
+      return ctx.db.sharedSecret.update({
+        where: { id: share.id },
+        data: { ...limits, permissions: permission },
+      });
+    }),
+
+  // Remove a recipient. Their access log entries are kept.
+  revokeShare: protectedProcedure
+    .input(z.object({ shareId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.sharedSecret.deleteMany({
+        where: {
+          id: input.shareId,
+          secret: { createdById: ctx.session.user.id },
+        },
+      });
 
-      return sharedSecrets;
+      if (count === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share not found" });
+      }
+
+      return { success: true };
+    }),
+
+  // Revoke a recipient's link without affecting the other recipients
+  revokeShareLink: protectedProcedure
+    .input(z.object({ shareId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.sharedSecret.updateMany({
+        where: {
+          id: input.shareId,
+          secret: { createdById: ctx.session.user.id },
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Share not found or already revoked",
+        });
+      }
+
+      return { success: true };
     }),
 });
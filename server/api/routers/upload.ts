@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { startUpload } from "@/lib/secret-files";
+import { FILE_UPLOAD_LIMITS } from "@/lib/constants";
+
+export const uploadRouter = createTRPCRouter({
+  // Register a file upload; chunks are then sent to /api/uploads/{id}/chunks/{index}
+  start: protectedProcedure
+    .input(
+      z.object({
+        fileName: z.string().min(1).max(255),
+        size: z.number().int().positive().max(FILE_UPLOAD_LIMITS.MAX_FILE_SIZE),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const file = await startUpload(ctx.session.user.id, input);
+
+      return {
+        id: file.id,
+        chunkSize: file.chunkSize,
+        chunkCount: file.chunkCount,
+      };
+    }),
+
+  // Report which chunks have been received, so an upload can be resumed
+  status: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const file = await ctx.db.secretFile.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!file || file.createdById !== ctx.session.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+      }
+
+      return {
+        id: file.id,
+        fileName: file.fileName,
+        size: file.size,
+        chunkSize: file.chunkSize,
+        chunkCount: file.chunkCount,
+        receivedChunks: [...new Set(file.receivedChunks)].sort((a, b) => a - b),
+        attached: !!file.secretId,
+      };
+    }),
+});
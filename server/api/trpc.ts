@@ -14,12 +14,16 @@ import { ZodError } from "zod";
 
 import { db } from "@/lib/db";
 import { getUserFromRequest } from "@/lib/auth";
+import { getClientIp } from "@/lib/client-ip";
 
 export const createTRPCContext = async (
   opts?: CreateNextContextOptions | { req: NextRequest }
 ) => {
-  // Get the authorization header from the request
+  // Get the authorization header and client details from the request
   let authHeader: string | undefined = undefined;
+  let forwardedFor: string | undefined = undefined;
+  let realIp: string | undefined = undefined;
+  let userAgent = "unknown";
 
   if (opts && "req" in opts && opts.req) {
     // For App Router with NextRequest
@@ -28,19 +32,31 @@ export const createTRPCContext = async (
       typeof opts.req.headers.get === "function"
     ) {
       authHeader = opts.req.headers.get("authorization") || undefined;
+      forwardedFor = opts.req.headers.get("x-forwarded-for") || undefined;
+      realIp = opts.req.headers.get("x-real-ip") || undefined;
+      userAgent = opts.req.headers.get("user-agent") || userAgent;
     }
     // For Pages Router with IncomingMessage
-    else if ("authorization" in opts.req.headers) {
-      authHeader = opts.req.headers.authorization as string;
+    else {
+      const headers = opts.req.headers as Record<string, string | undefined>;
+      authHeader = headers.authorization;
+      forwardedFor = headers["x-forwarded-for"];
+      realIp = headers["x-real-ip"];
+      userAgent = headers["user-agent"] || userAgent;
     }
   }
 
+  // Only what trusted proxies reported, see lib/client-ip.ts
+  const ipAddress = getClientIp(forwardedFor, realIp);
+
   // Get the user from the JWT token
   const user = getUserFromRequest(authHeader);
 
   return {
     db,
     user,
+    ipAddress,
+    userAgent,
   };
 };
 
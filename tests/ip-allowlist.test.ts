@@ -0,0 +1,113 @@
+/**
+ * IP allowlists and client addresses
+ *
+ * Checks the CIDR parsing and matching behind `allowedCidrs`, and which
+ * proxy header entry is taken as the client, since a forged address would
+ * get past the allowlist.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isIpAllowed, parseCidr, parseIpAddress } from "@/lib/ip-allowlist";
+import { getClientIp } from "@/lib/client-ip";
+
+// Run with the given proxy settings, restoring the environment afterwards
+function withEnv(env: Record<string, string | undefined>, run: () => void) {
+  const previous = Object.fromEntries(
+    Object.keys(env).map((name) => [name, process.env[name]])
+  );
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  };
+
+  apply(env);
+  try {
+    run();
+  } finally {
+    apply(previous);
+  }
+}
+
+test("parses IPv4 and IPv6 addresses", () => {
+  assert.deepEqual(parseIpAddress("203.0.113.7"), [203, 0, 113, 7]);
+  const documentation = [0x20, 0x01, 0x0d, 0xb8, ...Array(11).fill(0), 1];
+  assert.deepEqual(parseIpAddress("2001:db8::1"), documentation);
+  assert.equal(parseIpAddress("fe80::1%eth0")?.length, 16);
+
+  for (const invalid of ["256.0.0.1", "1.2.3", "01.2.3.4", "1::2::3", "::g"]) {
+    assert.equal(parseIpAddress(invalid), null, invalid);
+  }
+});
+
+test("rejects malformed ranges", () => {
+  for (const invalid of ["10.0.0.0/33", "2001:db8::/129", "10.0.0.0/8/8"]) {
+    assert.equal(parseCidr(invalid), null, invalid);
+  }
+  assert.deepEqual(parseCidr("10.0.0.1"), { bytes: [10, 0, 0, 1], prefix: 32 });
+});
+
+test("matches IPv4 prefixes", () => {
+  const allowlist = ["203.0.113.0/24", "10.0.0.0/9"];
+
+  assert.equal(isIpAllowed("203.0.113.255", allowlist), true);
+  assert.equal(isIpAllowed("203.0.114.0", allowlist), false);
+  assert.equal(isIpAllowed("10.127.255.255", allowlist), true);
+  assert.equal(isIpAllowed("10.128.0.0", allowlist), false);
+  assert.equal(isIpAllowed("198.51.100.1", ["0.0.0.0/0"]), true);
+});
+
+test("matches IPv6 prefixes", () => {
+  const allowlist = ["2001:db8::/32", "2001:db8:ffff:ff00::/57"];
+
+  assert.equal(isIpAllowed("2001:db8:1234::1", allowlist), true);
+  assert.equal(isIpAllowed("2001:db9::1", allowlist), false);
+  assert.equal(isIpAllowed("2001:db8:ffff:ff7f::1", allowlist), true);
+  assert.equal(
+    isIpAllowed("2001:0db8:0000:0000:0000:0000:0000:0001", allowlist),
+    true
+  );
+});
+
+test("matches IPv4-mapped IPv6 clients against IPv4 ranges", () => {
+  assert.equal(isIpAllowed("::ffff:203.0.113.7", ["203.0.113.0/24"]), true);
+  assert.equal(isIpAllowed("::ffff:cb00:7107", ["203.0.113.0/24"]), true);
+  assert.equal(isIpAllowed("::ffff:198.51.100.1", ["203.0.113.0/24"]), false);
+  // Only the ::ffff: prefix maps, other embedded IPv4 forms do not
+  assert.equal(isIpAllowed("::203.0.113.7", ["203.0.113.0/24"]), false);
+});
+
+test("an empty allowlist allows everyone, otherwise unknown is refused", () => {
+  assert.equal(isIpAllowed("unknown", []), true);
+  assert.equal(isIpAllowed("unknown", ["0.0.0.0/0"]), false);
+});
+
+test("takes the client from the outermost trusted proxy's entry", () => {
+  const forwardedFor = "198.51.100.9, 203.0.113.7, 10.0.0.2";
+
+  withEnv({ TRUSTED_PROXY_COUNT: undefined }, () => {
+    assert.equal(getClientIp(forwardedFor, undefined), "10.0.0.2");
+  });
+  withEnv({ TRUSTED_PROXY_COUNT: "2" }, () => {
+    assert.equal(getClientIp(forwardedFor, undefined), "203.0.113.7");
+  });
+  withEnv({ TRUSTED_PROXY_COUNT: "0" }, () => {
+    assert.equal(getClientIp(forwardedFor, "203.0.113.7"), "unknown");
+  });
+});
+
+test("only falls back to X-Real-IP when it is trusted", () => {
+  withEnv(
+    { TRUSTED_PROXY_COUNT: undefined, TRUST_X_REAL_IP: undefined },
+    () => {
+      assert.equal(getClientIp(undefined, "203.0.113.7"), "unknown");
+    }
+  );
+  withEnv({ TRUSTED_PROXY_COUNT: undefined, TRUST_X_REAL_IP: "true" }, () => {
+    assert.equal(getClientIp(undefined, "203.0.113.7"), "203.0.113.7");
+    // X-Forwarded-For still wins when present
+    assert.equal(getClientIp("10.0.0.2", "203.0.113.7"), "10.0.0.2");
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Concurrent view claims
+ *
+ * Fires parallel claims at a `maxViews: 1` secret and checks exactly one
+ * wins. The in-memory client applies each `updateMany` atomically after
+ * yielding, the way Postgres re-checks a conditional UPDATE against the
+ * latest row, so a read-then-write claim would let several through. With
+ * DATABASE_URL set, the same race also runs against the real database.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { claimSecretView, claimView } from "@/lib/secret-views";
+
+const PARALLEL_CLAIMS = 20;
+
+type Row = Record<string, unknown>;
+
+// Prisma field references, as in `db.secret.fields.maxViews`
+function isFieldRef(value: unknown): value is { name: string } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "modelName" in value &&
+    "name" in value
+  );
+}
+
+// Just enough of Prisma's where syntax for the claims
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") {
+      return (condition as Row[]).some((clause) => matches(row, clause));
+    }
+    if (key === "AND") {
+      return (condition as Row[]).every((clause) => matches(row, clause));
+    }
+
+    const value = row[key];
+    if (condition === null || typeof condition !== "object") {
+      return value === condition;
+    }
+    if (condition instanceof Date) {
+      return value instanceof Date && value.getTime() === condition.getTime();
+    }
+
+    return Object.entries(condition as Row).every(([op, operand]) => {
+      const other = isFieldRef(operand) ? row[operand.name] : operand;
+      if (value === null || other === null) return false;
+      if (op === "gt") return (value as number) > (other as number);
+      if (op === "lt") return (value as number) < (other as number);
+      throw new Error(`Unsupported operator ${op}`);
+    });
+  });
+}
+
+function update(row: Row, data: Row) {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] =
+      typeof value === "object" && value !== null && "increment" in value
+        ? (row[key] as number) + (value as { increment: number }).increment
+        : value;
+  }
+}
+
+function createTable(rows: Row[]) {
+  return {
+    async updateMany({ where, data }: { where: Row; data: Row }) {
+      // Let the other claims get this far before any of them writes
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => update(row, data));
+      return { count: matched.length };
+    },
+    async findUnique({ where }: { where: { id: string } }) {
+      return rows.find((row) => row.id === where.id) ?? null;
+    },
+  };
+}
+
+function createClient(secret: Row, share?: Row) {
+  return {
+    secret: createTable([secret]),
+    sharedSecret: createTable(share ? [share] : []),
+  } as unknown as Prisma.TransactionClient;
+}
+
+function countWins(results: (number | null)[]) {
+  return results.filter((views) => views !== null).length;
+}
+
+const secretRow = (overrides: Row = {}): Row => ({
+  id: "secret",
+  isActive: true,
+  deleteAfterView: false,
+  expiresAt: null,
+  maxViews: 1,
+  currentViews: 0,
+  ...overrides,
+});
+
+test("only one of many parallel claims wins a single view", async () => {
+  const secret = secretRow();
+  const client = createClient(secret);
+
+  const results = await Promise.all(
+    Array.from({ length: PARALLEL_CLAIMS }, () =>
+      claimSecretView(client, { id: "secret", deleteAfterView: false })
+    )
+  );
+
+  assert.equal(countWins(results), 1);
+  assert.equal(secret.currentViews, 1);
+});
+
+test("a one-time secret is read once and deactivated", async () => {
+  const secret = secretRow({ deleteAfterView: true, maxViews: null });
+  const client = createClient(secret);
+
+  const results = await Promise.all(
+    Array.from({ length: PARALLEL_CLAIMS }, () =>
+      claimSecretView(client, { id: "secret", deleteAfterView: true })
+    )
+  );
+
+  assert.equal(countWins(results), 1);
+  assert.equal(secret.isActive, false);
+});
+
+test("only one of many parallel claims wins a share's single view", async () => {
+  const share: Row = {
+    id: "share",
+    revokedAt: null,
+    expiresAt: null,
+    maxViews: 1,
+    currentViews: 0,
+  };
+  const client = createClient(secretRow({ maxViews: null }), share);
+
+  const results = await Promise.all(
+    Array.from({ length: PARALLEL_CLAIMS }, () =>
+      claimView(client, { id: "secret", deleteAfterView: false }, "share")
+    )
+  );
+
+  assert.equal(countWins(results), 1);
+  assert.equal(share.currentViews, 1);
+});
+
+test(
+  "only one of many parallel claims wins against the database",
+  { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" },
+  async () => {
+    const user = await db.user.create({
+      data: {
+        email: `claims-${Date.now()}@example.test`,
+        name: "Claims",
+        password: "unused",
+      },
+    });
+
+    try {
+      const secret = await db.secret.create({
+        data: {
+          title: "Concurrent claims",
+          content: "",
+          maxViews: 1,
+          createdById: user.id,
+        },
+      });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: PARALLEL_CLAIMS }, () =>
+          db.$transaction((tx) => claimSecretView(tx, secret))
+        )
+      );
+      const wins = results.filter(
+        (result) => result.status === "fulfilled" && result.value !== null
+      );
+
+      assert.equal(wins.length, 1);
+    } finally {
+      // Cascades to the secret
+      await db.user.delete({ where: { id: user.id } });
+      await db.$disconnect();
+    }
+  }
+);